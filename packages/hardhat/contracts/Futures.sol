@@ -37,6 +37,36 @@ contract Futures {
     uint256 public totalLongSize;
     uint256 public totalShortSize;
 
+    // Events
+    event PositionOpened(
+        address indexed trader,
+        PositionType posType,
+        uint256 margin,
+        uint256 leverage,
+        uint256 entryPrice,
+        uint256 size,
+        uint256 fee
+    );
+    event PositionClosed(
+        address indexed trader,
+        PositionType posType,
+        uint256 exitPrice,
+        int256 pnl,
+        uint256 payout
+    );
+    event PositionLiquidated(
+        address indexed trader,
+        address indexed liquidator,
+        PositionType posType,
+        uint256 price,
+        int256 pnl,
+        uint256 liquidationFee
+    );
+    event ProvidedLiquidity(address indexed provider, uint256 amount, uint256 shares);
+    event WithdrewLiquidity(address indexed provider, uint256 shareAmount, uint256 stableOut);
+    event FeesDistributed(uint256 adminFee, uint256 lpFee);
+    event FeesWithdrawn(address indexed admin, uint256 amount);
+
     constructor(address _stableCoin, address _priceFeed) {
         stableCoin = IERC20(_stableCoin);
         priceFeed = AggregatorV3Interface(_priceFeed);
@@ -75,6 +105,8 @@ contract Futures {
         // Update provider's shares
         lpShares[msg.sender] += shares;
         totalLpShares += shares;
+
+        emit ProvidedLiquidity(msg.sender, amount, shares);
     }
 
     // Add function to withdraw liquidity
@@ -90,6 +122,8 @@ contract Futures {
 
         // Transfer stablecoins to provider
         stableCoin.transfer(msg.sender, withdrawAmount);
+
+        emit WithdrewLiquidity(msg.sender, shareAmount, withdrawAmount);
     }
 
     // Modify openPosition to include fees and tracking
@@ -129,6 +163,16 @@ contract Futures {
         } else {
             totalShortSize += positionSize;
         }
+
+        emit PositionOpened(
+            msg.sender,
+            positions[msg.sender].posType,
+            actualMargin,
+            _leverage,
+            price,
+            positionSize,
+            fee
+        );
     }
 
     function getPositionValue(Position memory pos, uint256 currentPrice) public pure returns (int256) {
@@ -171,9 +215,12 @@ contract Futures {
         delete positions[msg.sender];
 
         // If positive balance, transfer to user
-        if (total > 0) {
-            stableCoin.transfer(msg.sender, uint256(total));
+        uint256 payout = total > 0 ? uint256(total) : 0;
+        if (payout > 0) {
+            stableCoin.transfer(msg.sender, payout);
         }
+
+        emit PositionClosed(msg.sender, pos.posType, price, pnl, payout);
     }
 
     function liquidate(address trader) external {
@@ -194,6 +241,16 @@ contract Futures {
 
         delete positions[trader];
         // In real system, liquidator might get a reward here
+
+        uint256 price = getLatestPrice();
+        emit PositionLiquidated(
+            trader,
+            msg.sender,
+            pos.posType,
+            price,
+            getPositionValue(pos, price),
+            liquidationFee
+        );
     }
 
     // Add function to distribute fees to LPs
@@ -210,12 +267,16 @@ contract Futures {
 
         // Add LP fees to pool (implicitly distributed by share value)
         accumulatedFees = 0;
+
+        emit FeesDistributed(adminFee, lpFee);
     }
 
     function withdrawFees(uint256 amount) external onlyAdmin {
         require(amount <= accumulatedFees, "Amount exceeds available fees");
         accumulatedFees -= amount;
         stableCoin.transfer(admin, amount);
+
+        emit FeesWithdrawn(admin, amount);
     }
 
     // Add view function to get platform stats
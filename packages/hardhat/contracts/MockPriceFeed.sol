@@ -5,17 +5,45 @@ contract MockPriceFeed {
     int256 public price;
     uint8 public decimals = 8;
 
+    // Every price set is recorded as a new round, like a Chainlink aggregator, so past prices can be read back
+    struct Round {
+        int256 answer;
+        uint256 updatedAt;
+    }
+
+    uint80 public latestRound;
+    mapping(uint80 => Round) private rounds;
+
+    event AnswerUpdated(int256 indexed current, uint256 indexed roundId, uint256 updatedAt);
+
     constructor(uint256 _initialPrice) {
-        price = int256(_initialPrice);
+        _recordRound(int256(_initialPrice));
     }
 
     function latestRoundData() external view returns (
         uint80, int256, uint256, uint256, uint80
     ) {
-        return (0, price, 0, 0, 0);
+        Round memory round = rounds[latestRound];
+        return (latestRound, round.answer, round.updatedAt, round.updatedAt, latestRound);
+    }
+
+    function getRoundData(uint80 _roundId) external view returns (
+        uint80, int256, uint256, uint256, uint80
+    ) {
+        Round memory round = rounds[_roundId];
+        // Same revert as Chainlink aggregators for rounds that don't exist
+        require(round.updatedAt > 0, "No data present");
+        return (_roundId, round.answer, round.updatedAt, round.updatedAt, _roundId);
     }
 
     function setPrice(uint256 _newPrice) external {
-        price = int256(_newPrice);
+        _recordRound(int256(_newPrice));
+    }
+
+    function _recordRound(int256 _answer) private {
+        price = _answer;
+        latestRound++;
+        rounds[latestRound] = Round({ answer: _answer, updatedAt: block.timestamp });
+        emit AnswerUpdated(_answer, latestRound, block.timestamp);
     }
 }
@@ -0,0 +1,40 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import {
+  developmentChains,
+  MOCK_INITIAL_PRICE,
+  MOCK_STABLE_DECIMALS,
+  MOCK_STABLE_NAME,
+  MOCK_STABLE_SYMBOL,
+} from "../marketConfig";
+
+/**
+ * Deploys "MockStableCoin" and "MockPriceFeed" on local networks.
+ * Live networks use the real stablecoin and Chainlink feed from marketConfig.ts instead.
+ *
+ * @param hre HardhatRuntimeEnvironment object.
+ */
+const deployMocks: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  await deploy("MockStableCoin", {
+    from: deployer,
+    args: [MOCK_STABLE_NAME, MOCK_STABLE_SYMBOL, MOCK_STABLE_DECIMALS],
+    log: true,
+    autoMine: true,
+  });
+
+  await deploy("MockPriceFeed", {
+    from: deployer,
+    args: [MOCK_INITIAL_PRICE],
+    log: true,
+    autoMine: true,
+  });
+};
+
+export default deployMocks;
+
+deployMocks.tags = ["Mocks"];
+// Only needed where there is no real stablecoin / Chainlink feed
+deployMocks.skip = async (hre: HardhatRuntimeEnvironment) => !developmentChains.includes(hre.network.name);
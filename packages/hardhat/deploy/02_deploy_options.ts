@@ -0,0 +1,27 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { getMarketDependencies } from "../marketConfig";
+
+/**
+ * Deploys the cash-settled "Options" pool wired to the network's stablecoin and price feed.
+ *
+ * @param hre HardhatRuntimeEnvironment object.
+ */
+const deployOptions: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+  const { stableCoin, priceFeed } = await getMarketDependencies(hre);
+
+  await deploy("Options", {
+    from: deployer,
+    args: [stableCoin, priceFeed],
+    log: true,
+    autoMine: true,
+  });
+};
+
+export default deployOptions;
+
+// e.g. yarn deploy --tags Options (also deploys the mocks on local networks)
+deployOptions.tags = ["Options", "Markets"];
+deployOptions.dependencies = ["Mocks"];
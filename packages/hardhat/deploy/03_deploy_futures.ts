@@ -0,0 +1,27 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { getMarketDependencies } from "../marketConfig";
+
+/**
+ * Deploys the leveraged "Futures" contract wired to the network's stablecoin and price feed.
+ *
+ * @param hre HardhatRuntimeEnvironment object.
+ */
+const deployFutures: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+  const { stableCoin, priceFeed } = await getMarketDependencies(hre);
+
+  await deploy("Futures", {
+    from: deployer,
+    args: [stableCoin, priceFeed],
+    log: true,
+    autoMine: true,
+  });
+};
+
+export default deployFutures;
+
+// e.g. yarn deploy --tags Futures
+deployFutures.tags = ["Futures", "Markets"];
+deployFutures.dependencies = ["Mocks"];
@@ -0,0 +1,27 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { getMarketDependencies } from "../marketConfig";
+
+/**
+ * Deploys "PhysicallySettledOptions" wired to the network's stablecoin and price feed.
+ *
+ * @param hre HardhatRuntimeEnvironment object.
+ */
+const deployPhysicallySettledOptions: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+  const { stableCoin, priceFeed } = await getMarketDependencies(hre);
+
+  await deploy("PhysicallySettledOptions", {
+    from: deployer,
+    args: [stableCoin, priceFeed],
+    log: true,
+    autoMine: true,
+  });
+};
+
+export default deployPhysicallySettledOptions;
+
+// e.g. yarn deploy --tags PhysicallySettledOptions
+deployPhysicallySettledOptions.tags = ["PhysicallySettledOptions", "Markets"];
+deployPhysicallySettledOptions.dependencies = ["Mocks"];
@@ -0,0 +1,91 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * Networks where the stablecoin and the price feed are mocked and deployed by us.
+ */
+export const developmentChains = ["hardhat", "localhost"];
+
+/**
+ * The contracts do all their math in 1e18, so the stablecoin must have 18 decimals, mocked or not.
+ */
+export const STABLE_DECIMALS = 18;
+
+export const MOCK_STABLE_NAME = "Mock USD";
+export const MOCK_STABLE_SYMBOL = "mUSD";
+export const MOCK_STABLE_DECIMALS = STABLE_DECIMALS;
+
+// Chainlink style answer with 8 decimals => $3,000.00
+export const MOCK_INITIAL_PRICE = 3000n * 10n ** 8n;
+
+export type MarketNetworkConfig = {
+  // ERC20 used for premiums, margin and settlement, with STABLE_DECIMALS decimals
+  stableCoin: string;
+  // Chainlink ETH / USD aggregator (8 decimals)
+  priceFeed: string;
+};
+
+/**
+ * Addresses of an 18 decimals stablecoin (DAI) and the Chainlink ETH / USD feed on each live network.
+ * Add an entry here before running `yarn deploy --network <name>` on a new network. 6 decimals stablecoins
+ * like USDC would make every amount wrong by 1e12 and are rejected by `getMarketDependencies`.
+ */
+export const marketNetworkConfig: Record<string, MarketNetworkConfig> = {
+  mainnet: {
+    stableCoin: "0x6B175474E89094C44Da98b954EedeAC495271d0F",
+    priceFeed: "0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419",
+  },
+  sepolia: {
+    // Aave v3 testnet DAI, mintable from the Aave faucet
+    stableCoin: "0xFF34B3d4Aee8ddCd6F9AFFFB6Fe49bD371b8a357",
+    priceFeed: "0x694AA1769357215DE4FAC081bf1f309aDC325306",
+  },
+  arbitrum: {
+    stableCoin: "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1",
+    priceFeed: "0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612",
+  },
+  optimism: {
+    stableCoin: "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1",
+    priceFeed: "0x13e3Ee699D1909E989722E753853AE30b17e08c5",
+  },
+  base: {
+    stableCoin: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb",
+    priceFeed: "0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70",
+  },
+};
+
+/**
+ * Returns the stablecoin and price feed addresses the markets should be deployed with.
+ * On development chains these are the mocks deployed by `01_deploy_mocks.ts`.
+ * Throws when the stablecoin doesn't have STABLE_DECIMALS decimals.
+ *
+ * @param hre HardhatRuntimeEnvironment object.
+ */
+export async function getMarketDependencies(hre: HardhatRuntimeEnvironment): Promise<MarketNetworkConfig> {
+  const networkName = hre.network.name;
+
+  let dependencies: MarketNetworkConfig | undefined;
+  if (developmentChains.includes(networkName)) {
+    const { get } = hre.deployments;
+    dependencies = {
+      stableCoin: (await get("MockStableCoin")).address,
+      priceFeed: (await get("MockPriceFeed")).address,
+    };
+  } else {
+    dependencies = marketNetworkConfig[networkName];
+  }
+  if (!dependencies) {
+    throw new Error(`No stablecoin / price feed configured for network "${networkName}". Add it to marketConfig.ts`);
+  }
+
+  const stableCoin = await hre.ethers.getContractAt(
+    ["function decimals() view returns (uint8)"],
+    dependencies.stableCoin,
+  );
+  const decimals = await stableCoin.decimals();
+  if (Number(decimals) !== STABLE_DECIMALS) {
+    throw new Error(
+      `Stablecoin ${dependencies.stableCoin} on "${networkName}" has ${decimals} decimals, the markets need ${STABLE_DECIMALS}. Fix it in marketConfig.ts`,
+    );
+  }
+  return dependencies;
+}
@@ -0,0 +1,121 @@
+import hre from "hardhat";
+import { Contract, EventLog } from "ethers";
+import {
+  getDeploymentBlock,
+  getKeeperOptions,
+  isGasPriceWithinCap,
+  queryEventsInChunks,
+  runKeeperLoop,
+  sendKeeperTransaction,
+} from "./keeperUtils";
+
+/**
+ * Calls `expireOption` on every Options / PhysicallySettledOptions option past expiry, releasing
+ * the collateral held in lockedCollateral / lockedEth / lockedStable back to the pools.
+ *
+ * The set of active options is rebuilt from OptionPurchased minus OptionExercised / OptionExpiredWorthless.
+ *
+ * Usage: yarn keeper:expiry [--network sepolia] [--dry-run] [--loop 60] [--max-gas-price 30] [--gas-limit 150000]
+ *        [--grace 86400]
+ */
+
+type ActiveOption = { id: bigint; expiry: bigint };
+
+type Market = {
+  name: "Options" | "PhysicallySettledOptions";
+  contract: Contract;
+  active: Map<bigint, ActiveOption>;
+  lastScannedBlock: number;
+  // Whether the keeper should expire an option at chain time `now`
+  isDue: (expiry: bigint, now: bigint) => boolean;
+};
+
+async function loadMarket(name: Market["name"], isDue: Market["isDue"]): Promise<Market | undefined> {
+  const contract = await hre.ethers.getContractOrNull<Contract>(name);
+  if (!contract) {
+    console.log(`⚠️ ${name} is not deployed on ${hre.network.name}, skipping`);
+    return undefined;
+  }
+  return {
+    name,
+    contract,
+    active: new Map(),
+    lastScannedBlock: (await getDeploymentBlock(hre, name)) - 1,
+    isDue,
+  };
+}
+
+/**
+ * Applies the events since the last scan to the market's active set
+ */
+async function syncActiveOptions(market: Market, toBlock: number, blockRange: number) {
+  const fromBlock = market.lastScannedBlock + 1;
+  if (fromBlock > toBlock) return;
+
+  const { contract } = market;
+  const [purchased, exercised, expired] = await Promise.all([
+    queryEventsInChunks(contract, contract.getEvent("OptionPurchased"), fromBlock, toBlock, blockRange),
+    queryEventsInChunks(contract, contract.getEvent("OptionExercised"), fromBlock, toBlock, blockRange),
+    queryEventsInChunks(contract, contract.getEvent("OptionExpiredWorthless"), fromBlock, toBlock, blockRange),
+  ]);
+
+  for (const log of purchased as EventLog[]) {
+    market.active.set(log.args.optionId, { id: log.args.optionId, expiry: log.args.expiry });
+  }
+  for (const log of [...exercised, ...expired] as EventLog[]) {
+    market.active.delete(log.args.optionId);
+  }
+  market.lastScannedBlock = toBlock;
+}
+
+async function main() {
+  const options = getKeeperOptions();
+  // PhysicallySettledOptions can only be exercised at or after expiry, so give buyers time before expiring
+  const physicalGracePeriod = BigInt(process.env.KEEPER_GRACE_PERIOD ?? 24 * 3600);
+
+  const markets = (
+    await Promise.all([
+      // expireOption requires block.timestamp > expiry
+      loadMarket("Options", (expiry, now) => now > expiry),
+      // expireOption requires block.timestamp >= expiry, the grace period is on top of that
+      loadMarket("PhysicallySettledOptions", (expiry, now) => now >= expiry + physicalGracePeriod),
+    ])
+  ).filter((market): market is Market => market !== undefined);
+
+  await runKeeperLoop("Expiry", options, async () => {
+    const block = await hre.ethers.provider.getBlock("latest");
+    if (!block) throw new Error("Could not fetch latest block");
+    const now = BigInt(block.timestamp);
+
+    for (const market of markets) {
+      await syncActiveOptions(market, block.number, options.blockRange);
+      const due = [...market.active.values()].filter(option => market.isDue(option.expiry, now));
+      console.log(`🔎 ${market.name}: ${market.active.size} active, ${due.length} past expiry (block ${block.number})`);
+
+      for (const option of due) {
+        if (!(await isGasPriceWithinCap(hre, options))) return;
+        // Guard against a missed event: trust the on-chain flag over our view of the book
+        const { isActive } = await market.contract.options(option.id);
+        if (!isActive) {
+          market.active.delete(option.id);
+          continue;
+        }
+        const sent = await sendKeeperTransaction(
+          hre,
+          options,
+          market.contract,
+          "expireOption",
+          [option.id],
+          `${market.name} #${option.id}`,
+        );
+        // In dry-run the event never comes, so drop it here to avoid repeating it every pass
+        if (sent) market.active.delete(option.id);
+      }
+    }
+  });
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
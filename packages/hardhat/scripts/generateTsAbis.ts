@@ -84,11 +84,22 @@ function getContractDataFromDeployments() {
     const chainId = fs.readFileSync(`${DEPLOYMENTS_DIR}/${chainName}/.chainId`).toString();
     const contracts = {} as Record<string, any>;
     for (const contractName of getContractNames(`${DEPLOYMENTS_DIR}/${chainName}`)) {
-      const { abi, address, metadata } = JSON.parse(
+      const { abi, address, metadata, transactionHash, receipt, args, userdoc, devdoc } = JSON.parse(
         fs.readFileSync(`${DEPLOYMENTS_DIR}/${chainName}/${contractName}.json`).toString(),
       );
       const inheritedFunctions = metadata ? getInheritedFunctions(JSON.parse(metadata).sources, contractName) : {};
-      contracts[contractName] = { address, abi, inheritedFunctions };
+      contracts[contractName] = {
+        address,
+        abi,
+        inheritedFunctions,
+        deployedOnBlock: receipt?.blockNumber,
+        transactionHash,
+        constructorArgs: args ?? [],
+        deployer: receipt?.from,
+        // Only the NatSpec the debug UI renders, `kind` / `version` and event / error docs are dropped
+        userdoc: { notice: userdoc?.notice, methods: userdoc?.methods ?? {} },
+        devdoc: { title: devdoc?.title, details: devdoc?.details, methods: devdoc?.methods ?? {} },
+      };
     }
     output[chainId] = contracts;
   }
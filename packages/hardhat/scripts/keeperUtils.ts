@@ -0,0 +1,146 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contract, ContractEvent, EventLog, formatUnits, isError, Log, parseUnits } from "ethers";
+
+/**
+ * Shared plumbing for the keeper scripts. Options come from KEEPER_* env variables, which
+ * `runKeeperWithPK.ts` fills from its command line flags.
+ */
+
+export type KeeperOptions = {
+  // Log what would be sent without sending anything
+  dryRun: boolean;
+  // Seconds between passes, 0 = run a single pass and exit
+  loopInterval: number;
+  // Skip sending while the network gas price is above this
+  maxGasPrice?: bigint;
+  // Never send a transaction estimated above this gas
+  gasLimit?: bigint;
+  // Max block span per eth_getLogs request
+  blockRange: number;
+};
+
+export function getKeeperOptions(): KeeperOptions {
+  const { KEEPER_DRY_RUN, KEEPER_LOOP_INTERVAL, KEEPER_MAX_GAS_PRICE_GWEI, KEEPER_GAS_LIMIT, KEEPER_BLOCK_RANGE } =
+    process.env;
+  return {
+    dryRun: KEEPER_DRY_RUN === "true",
+    loopInterval: Number(KEEPER_LOOP_INTERVAL ?? 0),
+    maxGasPrice: KEEPER_MAX_GAS_PRICE_GWEI ? parseUnits(KEEPER_MAX_GAS_PRICE_GWEI, "gwei") : undefined,
+    gasLimit: KEEPER_GAS_LIMIT ? BigInt(KEEPER_GAS_LIMIT) : undefined,
+    blockRange: Number(KEEPER_BLOCK_RANGE ?? 5000),
+  };
+}
+
+/**
+ * Block the contract was deployed at, so event scans don't start from genesis
+ */
+export async function getDeploymentBlock(hre: HardhatRuntimeEnvironment, contractName: string) {
+  const deployment = await hre.deployments.get(contractName);
+  return deployment.receipt?.blockNumber ?? 0;
+}
+
+/**
+ * queryFilter split into `blockRange` sized requests, as most RPC providers cap eth_getLogs spans
+ */
+export async function queryEventsInChunks(
+  contract: Contract,
+  event: ContractEvent,
+  fromBlock: number,
+  toBlock: number,
+  blockRange: number,
+) {
+  const logs: (EventLog | Log)[] = [];
+  for (let start = fromBlock; start <= toBlock; start += blockRange) {
+    const end = Math.min(start + blockRange - 1, toBlock);
+    logs.push(...(await contract.queryFilter(event, start, end)));
+  }
+  return logs;
+}
+
+/**
+ * Simulates a keeper call, checks it against the gas caps and sends it unless in dry-run mode.
+ * Returns true when the transaction was sent (or would have been, in dry-run mode).
+ */
+export async function sendKeeperTransaction(
+  hre: HardhatRuntimeEnvironment,
+  options: KeeperOptions,
+  contract: Contract,
+  functionName: string,
+  args: unknown[],
+  label: string,
+) {
+  const method = contract.getFunction(functionName);
+
+  try {
+    await method.staticCall(...args);
+  } catch (e: unknown) {
+    const reason = isError(e, "CALL_EXCEPTION") ? e.shortMessage : e instanceof Error ? e.message : String(e);
+    console.log(`   ⏭️  ${label}: would revert (${reason}), skipping`);
+    return false;
+  }
+
+  const estimatedGas = await method.estimateGas(...args);
+  if (options.gasLimit !== undefined && estimatedGas > options.gasLimit) {
+    console.log(`   ⛽ ${label}: estimated gas ${estimatedGas} above cap ${options.gasLimit}, skipping`);
+    return false;
+  }
+
+  if (options.dryRun) {
+    console.log(`   🧪 ${label}: dry run, would send ${functionName} (gas ~${estimatedGas})`);
+    return true;
+  }
+
+  const tx = await method.send(...args, { gasLimit: options.gasLimit ?? (estimatedGas * 12n) / 10n });
+  const receipt = await tx.wait();
+  console.log(`   ✅ ${label}: ${functionName} mined in block ${receipt?.blockNumber} (${tx.hash})`);
+  return true;
+}
+
+/**
+ * False while the network gas price is above the configured cap
+ */
+export async function isGasPriceWithinCap(hre: HardhatRuntimeEnvironment, options: KeeperOptions) {
+  if (options.maxGasPrice === undefined) return true;
+  const { gasPrice, maxFeePerGas } = await hre.ethers.provider.getFeeData();
+  const current = maxFeePerGas ?? gasPrice ?? 0n;
+  if (current > options.maxGasPrice) {
+    console.log(
+      `⛽ Gas price ${formatUnits(current, "gwei")} gwei above cap ${formatUnits(options.maxGasPrice, "gwei")} gwei, waiting`,
+    );
+    return false;
+  }
+  return true;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs `pass` once, or every `loopInterval` seconds until interrupted. A failing pass is logged
+ * and retried on the next tick instead of killing the daemon.
+ */
+export async function runKeeperLoop(name: string, options: KeeperOptions, pass: () => Promise<void>) {
+  console.log(
+    `🤖 ${name} keeper starting${options.dryRun ? " (dry run)" : ""}${options.loopInterval > 0 ? `, every ${options.loopInterval}s` : ""}`,
+  );
+  if (options.loopInterval <= 0) {
+    await pass();
+    return;
+  }
+
+  let stopped = false;
+  process.on("SIGINT", () => {
+    console.log(`\n👋 ${name} keeper stopping`);
+    stopped = true;
+  });
+
+  while (!stopped) {
+    try {
+      await pass();
+    } catch (e) {
+      console.error(`❌ ${name} keeper pass failed:`, e);
+    }
+    for (let waited = 0; waited < options.loopInterval && !stopped; waited++) {
+      await sleep(1000);
+    }
+  }
+}
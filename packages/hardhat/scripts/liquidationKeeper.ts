@@ -0,0 +1,135 @@
+import hre from "hardhat";
+import { Contract, EventLog, formatUnits } from "ethers";
+import {
+  getDeploymentBlock,
+  getKeeperOptions,
+  isGasPriceWithinCap,
+  queryEventsInChunks,
+  runKeeperLoop,
+  sendKeeperTransaction,
+} from "./keeperUtils";
+
+/**
+ * Watches Futures positions and calls `liquidate` on every trader under maintenance margin.
+ *
+ * Futures has no trader list, so the set of traders is rebuilt from its PositionOpened / PositionClosed /
+ * PositionLiquidated events. Positions are evaluated whenever a new block or a new feed price shows up.
+ *
+ * Usage: yarn keeper:liquidation [--network sepolia] [--dry-run] [--loop 12] [--max-gas-price 30] [--gas-limit 200000]
+ */
+
+const POSITION_TYPES = ["NONE", "LONG", "SHORT"];
+
+type TraderSummary = {
+  trader: string;
+  side: string;
+  leverage: string;
+  margin: string;
+  entryPrice: string;
+  equity: string;
+  maintenance: string;
+  "equity / maint.": string;
+  liquidatable: boolean;
+};
+
+/**
+ * Replays PositionOpened / PositionClosed / PositionLiquidated in [fromBlock, toBlock] onto the trader set
+ */
+async function syncTraders(
+  futures: Contract,
+  traders: Set<string>,
+  fromBlock: number,
+  toBlock: number,
+  blockRange: number,
+) {
+  const logs = (
+    await Promise.all(
+      ["PositionOpened", "PositionClosed", "PositionLiquidated"].map(eventName =>
+        queryEventsInChunks(futures, futures.getEvent(eventName), fromBlock, toBlock, blockRange),
+      ),
+    )
+  ).flat() as EventLog[];
+
+  // A trader can open, close and reopen within the range, so apply in chain order
+  logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+  for (const log of logs) {
+    if (log.eventName === "PositionOpened") traders.add(log.args.trader);
+    else traders.delete(log.args.trader);
+  }
+}
+
+async function main() {
+  const options = getKeeperOptions();
+
+  const futures = await hre.ethers.getContractOrNull<Contract>("Futures");
+  if (!futures) {
+    console.log(`⚠️ Futures is not deployed on ${hre.network.name}`);
+    return;
+  }
+
+  const stable = await hre.ethers.getContractAt("IERC20Metadata", await futures.stableCoin());
+  const stableDecimals = Number(await stable.decimals());
+  const stableSymbol = await stable.symbol();
+  const maintenanceRatio: bigint = await futures.MAINTENANCE_MARGIN_RATIO();
+  const formatStable = (value: bigint) => Number(formatUnits(value, stableDecimals)).toFixed(2);
+
+  const traders = new Set<string>();
+  let lastScannedBlock = (await getDeploymentBlock(hre, "Futures")) - 1;
+  let lastPrice: bigint | undefined;
+
+  await runKeeperLoop("Liquidation", options, async () => {
+    const latestBlock = await hre.ethers.provider.getBlockNumber();
+    const price: bigint = await futures.getLatestPrice();
+    const hasNewBlock = latestBlock > lastScannedBlock;
+    const hasNewPrice = price !== lastPrice;
+    if (!hasNewBlock && !hasNewPrice) return;
+
+    await syncTraders(futures, traders, lastScannedBlock + 1, latestBlock, options.blockRange);
+    lastScannedBlock = latestBlock;
+    lastPrice = price;
+
+    const summaries: TraderSummary[] = [];
+    const liquidatable: string[] = [];
+
+    for (const trader of traders) {
+      const position = await futures.positions(trader);
+      if (!position.isOpen) {
+        traders.delete(trader);
+        continue;
+      }
+
+      const pnl: bigint = await futures.getPositionValue(position.toArray(), price);
+      const equity = position.margin + pnl;
+      const maintenance = (position.margin * maintenanceRatio) / 100n;
+      const isLiquidatable: boolean = await futures.checkLiquidation(trader);
+      if (isLiquidatable) liquidatable.push(trader);
+
+      summaries.push({
+        trader,
+        side: POSITION_TYPES[Number(position.posType)],
+        leverage: `${position.leverage}x`,
+        margin: formatStable(position.margin),
+        entryPrice: Number(formatUnits(position.entryPrice, 18)).toFixed(2),
+        equity: formatStable(equity),
+        maintenance: formatStable(maintenance),
+        "equity / maint.": maintenance > 0n ? (Number((equity * 10000n) / maintenance) / 10000).toFixed(2) : "-",
+        liquidatable: isLiquidatable,
+      });
+    }
+
+    console.log(
+      `\n🔎 Block ${latestBlock}, price $${Number(formatUnits(price, 18)).toFixed(2)}: ${traders.size} open positions, ${liquidatable.length} liquidatable (amounts in ${stableSymbol})`,
+    );
+    if (summaries.length > 0) console.table(summaries);
+
+    for (const trader of liquidatable) {
+      if (!(await isGasPriceWithinCap(hre, options))) return;
+      await sendKeeperTransaction(hre, options, futures, "liquidate", [trader], `Futures ${trader}`);
+    }
+  });
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
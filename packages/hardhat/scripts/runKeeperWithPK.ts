@@ -0,0 +1,92 @@
+import * as dotenv from "dotenv";
+dotenv.config();
+import { Wallet } from "ethers";
+import password from "@inquirer/password";
+import { spawn } from "child_process";
+import { config } from "hardhat";
+
+/**
+ * Unencrypts the private key and runs a keeper script with `hardhat run`.
+ *
+ * Usage: ts-node scripts/runKeeperWithPK.ts <keeper script> [--network <name>] [keeper flags]
+ *
+ * `hardhat run` doesn't forward extra arguments, so keeper flags are passed on as KEEPER_* env variables.
+ */
+const KEEPER_FLAGS: Record<string, string> = {
+  "--loop": "KEEPER_LOOP_INTERVAL",
+  "--max-gas-price": "KEEPER_MAX_GAS_PRICE_GWEI",
+  "--gas-limit": "KEEPER_GAS_LIMIT",
+  "--block-range": "KEEPER_BLOCK_RANGE",
+  "--grace": "KEEPER_GRACE_PERIOD",
+};
+
+function parseArgs(argv: string[]) {
+  const [script, ...rest] = argv;
+  const hardhatArgs: string[] = [];
+  const keeperEnv: Record<string, string> = {};
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === "--dry-run") {
+      keeperEnv.KEEPER_DRY_RUN = "true";
+    } else if (arg in KEEPER_FLAGS) {
+      keeperEnv[KEEPER_FLAGS[arg]] = rest[++i];
+    } else {
+      hardhatArgs.push(arg);
+    }
+  }
+  return { script, hardhatArgs, keeperEnv };
+}
+
+function runKeeper(script: string, hardhatArgs: string[], keeperEnv: Record<string, string>) {
+  const hardhat = spawn("hardhat", ["run", script, ...hardhatArgs], {
+    stdio: "inherit",
+    env: { ...process.env, ...keeperEnv },
+    shell: process.platform === "win32",
+  });
+
+  hardhat.on("exit", code => {
+    process.exit(code || 0);
+  });
+}
+
+async function main() {
+  const { script, hardhatArgs, keeperEnv } = parseArgs(process.argv.slice(2));
+  if (!script) {
+    console.log("🚫️ Missing keeper script, e.g. `ts-node scripts/runKeeperWithPK.ts scripts/expiryKeeper.ts`");
+    return;
+  }
+
+  // Keepers need deployments, which the in-process hardhat network never has, so default to localhost
+  if (!hardhatArgs.includes("--network")) {
+    hardhatArgs.push("--network", config.defaultNetwork === "hardhat" ? "localhost" : config.defaultNetwork);
+  }
+  const networkName = hardhatArgs[hardhatArgs.indexOf("--network") + 1];
+
+  if (networkName === "localhost" || networkName === "hardhat") {
+    // Keepers on localhost use the default hardhat account
+    runKeeper(script, hardhatArgs, keeperEnv);
+    return;
+  }
+
+  const encryptedKey = process.env.DEPLOYER_PRIVATE_KEY_ENCRYPTED;
+
+  if (!encryptedKey) {
+    console.log("🚫️ You don't have a deployer account. Run `yarn generate` or `yarn account:import` first");
+    return;
+  }
+
+  const pass = await password({ message: "Enter password to decrypt private key:" });
+
+  try {
+    const wallet = await Wallet.fromEncryptedJson(encryptedKey, pass);
+    process.env.__RUNTIME_DEPLOYER_PRIVATE_KEY = wallet.privateKey;
+    runKeeper(script, hardhatArgs, keeperEnv);
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  } catch (e) {
+    console.error("Failed to decrypt private key. Wrong password?");
+    process.exit(1);
+  }
+}
+
+main().catch(console.error);
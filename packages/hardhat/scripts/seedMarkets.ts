@@ -0,0 +1,192 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers, network } from "hardhat";
+import { Contract, MaxUint256, parseEther, parseUnits, Signer } from "ethers";
+import { developmentChains } from "../marketConfig";
+
+/**
+ * Seeds the local markets with liquidity and open positions described by a JSON scenario.
+ *
+ * Usage: yarn seed
+ *        SEED_SCENARIO=scenarios/my-book.json yarn seed
+ *
+ * Amounts in the scenario are human readable: stable amounts in token units, strikes and prices in USD,
+ * option amounts and ETH collateral in ETH.
+ */
+
+const DEFAULT_SCENARIO = "scenarios/default.json";
+
+type SignerAmount = { signer: number; amount: string };
+
+type OptionPosition = {
+  signer: number;
+  type: "call" | "put";
+  strike: string;
+  expiresInDays: number;
+  amount: string;
+};
+
+type FuturesPosition = {
+  signer: number;
+  side: "long" | "short";
+  margin: string;
+  leverage: number;
+};
+
+type Scenario = {
+  description?: string;
+  // Mock price feed value in USD, set before anything else
+  price?: string;
+  mint?: { signers: number[]; amount: string };
+  options?: { liquidity?: SignerAmount[]; positions?: OptionPosition[] };
+  physicallySettledOptions?: {
+    ethCollateral?: SignerAmount[];
+    stableCollateral?: SignerAmount[];
+    positions?: OptionPosition[];
+  };
+  futures?: { liquidity?: SignerAmount[]; positions?: FuturesPosition[] };
+};
+
+const OPTION_TYPES = { call: 0, put: 1 };
+const FEED_DECIMALS = 8;
+
+function loadScenario(): Scenario {
+  const scenarioPath = path.resolve(process.env.SEED_SCENARIO ?? DEFAULT_SCENARIO);
+  if (!fs.existsSync(scenarioPath)) {
+    throw new Error(`Scenario file not found: ${scenarioPath}`);
+  }
+  console.log(`📖 Loading scenario ${scenarioPath}`);
+  return JSON.parse(fs.readFileSync(scenarioPath).toString());
+}
+
+async function main() {
+  if (!developmentChains.includes(network.name)) {
+    throw new Error(`Seeding mints mock tokens and only runs on local networks, not "${network.name}"`);
+  }
+
+  const scenario = loadScenario();
+  if (scenario.description) console.log(`   ${scenario.description}\n`);
+
+  const signers = await ethers.getSigners();
+  const signerAt = (index: number): Signer => {
+    if (!signers[index]) throw new Error(`Scenario refers to signer #${index}, only ${signers.length} available`);
+    return signers[index];
+  };
+
+  const stable = await ethers.getContract<Contract>("MockStableCoin");
+  const priceFeed = await ethers.getContract<Contract>("MockPriceFeed");
+  const options = await ethers.getContract<Contract>("Options");
+  const physicallySettledOptions = await ethers.getContract<Contract>("PhysicallySettledOptions");
+  const futures = await ethers.getContract<Contract>("Futures");
+
+  const stableDecimals = Number(await stable.decimals());
+  const stableSymbol = await stable.symbol();
+  const toStable = (amount: string) => parseUnits(amount, stableDecimals);
+
+  // Everyone touching the markets approves them once
+  const approved = new Set<string>();
+  const approveMarkets = async (signer: Signer) => {
+    const address = await signer.getAddress();
+    if (approved.has(address)) return;
+    for (const market of [options, physicallySettledOptions, futures]) {
+      await (await stable.connect(signer).getFunction("approve")(await market.getAddress(), MaxUint256)).wait();
+    }
+    approved.add(address);
+  };
+
+  const latestTimestamp = async () => {
+    const block = await ethers.provider.getBlock("latest");
+    if (!block) throw new Error("Could not fetch latest block");
+    return block.timestamp;
+  };
+
+  // Both option contracts share the buyOption(optType, strike, expiry, amount) signature
+  const buyOptions = async (market: Contract, label: string, positions: OptionPosition[] = []) => {
+    for (const position of positions) {
+      const buyer = signerAt(position.signer);
+      await approveMarkets(buyer);
+      const expiry = (await latestTimestamp()) + Math.round(position.expiresInDays * 24 * 3600);
+      await (
+        await market.connect(buyer).getFunction("buyOption")(
+          OPTION_TYPES[position.type],
+          parseEther(position.strike),
+          expiry,
+          parseEther(position.amount),
+        )
+      ).wait();
+      console.log(
+        `📈 ${label}: signer #${position.signer} bought ${position.amount} ${position.type.toUpperCase()} @ ${position.strike}, ${position.expiresInDays}d`,
+      );
+    }
+  };
+
+  // 1) Price
+  if (scenario.price) {
+    await (await priceFeed.setPrice(parseUnits(scenario.price, FEED_DECIMALS))).wait();
+    console.log(`💲 Price feed set to $${scenario.price}`);
+  }
+
+  // 2) Stablecoins
+  if (scenario.mint) {
+    for (const index of scenario.mint.signers) {
+      const signer = signerAt(index);
+      await (await stable.mint(await signer.getAddress(), toStable(scenario.mint.amount))).wait();
+      await approveMarkets(signer);
+    }
+    console.log(`🪙 Minted ${scenario.mint.amount} ${stableSymbol} to signers ${scenario.mint.signers.join(", ")}`);
+  }
+
+  // 3) Options (cash-settled pool)
+  for (const { signer, amount } of scenario.options?.liquidity ?? []) {
+    await approveMarkets(signerAt(signer));
+    await (await options.connect(signerAt(signer)).getFunction("provideLiquidity")(toStable(amount))).wait();
+    console.log(`🏦 Options: signer #${signer} provided ${amount} ${stableSymbol}`);
+  }
+  await buyOptions(options, "Options", scenario.options?.positions);
+
+  // 4) PhysicallySettledOptions
+  for (const { signer, amount } of scenario.physicallySettledOptions?.ethCollateral ?? []) {
+    await (
+      await physicallySettledOptions.connect(signerAt(signer)).getFunction("provideEthCollateral")({
+        value: parseEther(amount),
+      })
+    ).wait();
+    console.log(`🏦 PhysicallySettledOptions: signer #${signer} provided ${amount} ETH`);
+  }
+  for (const { signer, amount } of scenario.physicallySettledOptions?.stableCollateral ?? []) {
+    await approveMarkets(signerAt(signer));
+    await (
+      await physicallySettledOptions.connect(signerAt(signer)).getFunction("provideStableCollateral")(toStable(amount))
+    ).wait();
+    console.log(`🏦 PhysicallySettledOptions: signer #${signer} provided ${amount} ${stableSymbol}`);
+  }
+  await buyOptions(physicallySettledOptions, "PhysicallySettledOptions", scenario.physicallySettledOptions?.positions);
+
+  // 5) Futures
+  for (const { signer, amount } of scenario.futures?.liquidity ?? []) {
+    await approveMarkets(signerAt(signer));
+    await (await futures.connect(signerAt(signer)).getFunction("provideLiquidity")(toStable(amount))).wait();
+    console.log(`🏦 Futures: signer #${signer} provided ${amount} ${stableSymbol}`);
+  }
+  for (const position of scenario.futures?.positions ?? []) {
+    const trader = signerAt(position.signer);
+    await approveMarkets(trader);
+    await (
+      await futures.connect(trader).getFunction("openPosition")(
+        toStable(position.margin),
+        position.leverage,
+        position.side === "long",
+      )
+    ).wait();
+    console.log(
+      `📈 Futures: signer #${position.signer} opened ${position.side} ${position.leverage}x with ${position.margin} ${stableSymbol} margin`,
+    );
+  }
+
+  console.log("\n🌱 Markets seeded");
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,129 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contract, formatEther, formatUnits } from "ethers";
+import { getStable, MarketName } from "./utils";
+
+/**
+ * Pool health of every deployed market on the selected network, as tables or as JSON for dashboards and alerts.
+ *
+ * e.g. (from packages/hardhat) yarn hardhat markets:status --network localhost --json
+ */
+
+type Row = Record<string, string>;
+
+// Ratio of two amounts as a percentage with two decimals, "-" when the denominator is zero
+const formatPercent = (numerator: bigint, denominator: bigint) =>
+  denominator > 0n ? `${(Number((numerator * 10000n) / denominator) / 100).toFixed(2)}%` : "-";
+
+// Stable per share, 1e18 scaled so the same decimals as the pool can be used to format it
+const sharePrice = (liquidity: bigint, shares: bigint) => (shares > 0n ? (liquidity * 10n ** 18n) / shares : 0n);
+
+async function optionsStatus(hre: HardhatRuntimeEnvironment, market: Contract): Promise<Row> {
+  const stable = await getStable(hre, market);
+  const format = (value: bigint) => formatUnits(value, stable.decimals);
+  const [totalLiquidity, lockedCollateral, totalLpShares]: bigint[] = await Promise.all([
+    market.totalLiquidity(),
+    market.lockedCollateral(),
+    market.totalLpShares(),
+  ]);
+
+  return {
+    stable: stable.symbol,
+    totalLiquidity: format(totalLiquidity),
+    lockedCollateral: format(lockedCollateral),
+    freeLiquidity: format(totalLiquidity - lockedCollateral),
+    utilization: formatPercent(lockedCollateral, totalLiquidity),
+    totalLpShares: format(totalLpShares),
+    sharePrice: formatEther(sharePrice(totalLiquidity, totalLpShares)),
+  };
+}
+
+async function physicallySettledOptionsStatus(hre: HardhatRuntimeEnvironment, market: Contract): Promise<Row> {
+  const stable = await getStable(hre, market);
+  const format = (value: bigint) => formatUnits(value, stable.decimals);
+  const [totalEthCollateral, lockedEth, totalStableCollateral, lockedStable]: bigint[] = await Promise.all([
+    market.totalEthCollateral(),
+    market.lockedEth(),
+    market.totalStableCollateral(),
+    market.lockedStable(),
+  ]);
+
+  return {
+    stable: stable.symbol,
+    totalEthCollateral: formatEther(totalEthCollateral),
+    lockedEth: formatEther(lockedEth),
+    ethUtilization: formatPercent(lockedEth, totalEthCollateral),
+    totalStableCollateral: format(totalStableCollateral),
+    lockedStable: format(lockedStable),
+    stableUtilization: formatPercent(lockedStable, totalStableCollateral),
+  };
+}
+
+async function futuresStatus(hre: HardhatRuntimeEnvironment, market: Contract): Promise<Row> {
+  const stable = await getStable(hre, market);
+  const format = (value: bigint) => formatUnits(value, stable.decimals);
+  const [[longSize, shortSize, availableLiquidity, fees], totalLpShares]: [bigint[], bigint] = await Promise.all([
+    market.getPlatformStats(),
+    market.totalLpShares(),
+  ]);
+
+  return {
+    stable: stable.symbol,
+    longSize: format(longSize),
+    shortSize: format(shortSize),
+    netExposure: format(longSize - shortSize),
+    availableLiquidity: format(availableLiquidity),
+    accumulatedFees: format(fees),
+    totalLpShares: format(totalLpShares),
+    sharePrice: formatEther(sharePrice(availableLiquidity, totalLpShares)),
+  };
+}
+
+const MARKETS: Record<MarketName, (hre: HardhatRuntimeEnvironment, market: Contract) => Promise<Row>> = {
+  Options: optionsStatus,
+  PhysicallySettledOptions: physicallySettledOptionsStatus,
+  Futures: futuresStatus,
+};
+
+task("markets:status", "Reports liquidity, locked collateral and open interest of every deployed market")
+  .addFlag("json", "Print a single JSON document instead of tables")
+  .setAction(async ({ json }: { json: boolean }, hre) => {
+    const block = await hre.ethers.provider.getBlock("latest");
+    if (!block) throw new Error("Could not fetch latest block");
+
+    const markets: Record<string, Row & { price: string }> = {};
+    for (const [name, getStatus] of Object.entries(MARKETS)) {
+      const market = await hre.ethers.getContractOrNull<Contract>(name);
+      if (!market) {
+        if (!json) console.log(`⚠️ ${name} is not deployed on ${hre.network.name}, skipping`);
+        continue;
+      }
+      const price: bigint = await market.getLatestPrice();
+      markets[name] = { price: formatEther(price), ...(await getStatus(hre, market)) };
+    }
+
+    if (json) {
+      console.log(
+        JSON.stringify(
+          {
+            network: hre.network.name,
+            chainId: Number((await hre.ethers.provider.getNetwork()).chainId),
+            blockNumber: block.number,
+            timestamp: block.timestamp,
+            markets,
+          },
+          null,
+          2,
+        ),
+      );
+      return;
+    }
+
+    console.log(
+      `\n📊 Markets on ${hre.network.name} at block ${block.number} (${new Date(block.timestamp * 1000).toISOString()})`,
+    );
+    for (const [name, row] of Object.entries(markets)) {
+      console.log(`\n${name}`);
+      console.table(row);
+    }
+  });
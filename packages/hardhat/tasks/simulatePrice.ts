@@ -0,0 +1,185 @@
+import * as fs from "fs";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contract, formatUnits, parseUnits } from "ethers";
+import { developmentChains } from "../marketConfig";
+
+const FEED_DECIMALS = 8;
+const SECONDS_PER_YEAR = 365 * 24 * 3600;
+
+type PricePoint = {
+  price: number;
+  // Seconds of chain time to advance before setting this price
+  interval: number;
+};
+
+/**
+ * Small seeded PRNG (mulberry32) so a given --seed always replays the same path
+ */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample via Box-Muller
+ */
+function normalSample(random: () => number) {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Geometric Brownian motion: S' = S * exp((drift - vol^2 / 2) * dt + vol * sqrt(dt) * Z)
+ * `vol` and `drift` are annualized, `interval` is the step size in seconds.
+ */
+export function gbmPath(start: number, steps: number, interval: number, vol: number, drift: number, seed: number) {
+  const random = createRandom(seed);
+  const dt = interval / SECONDS_PER_YEAR;
+  const path: PricePoint[] = [];
+  let price = start;
+  for (let i = 0; i < steps; i++) {
+    price = price * Math.exp((drift - (vol * vol) / 2) * dt + vol * Math.sqrt(dt) * normalSample(random));
+    path.push({ price, interval });
+  }
+  return path;
+}
+
+/**
+ * Fixed list of jumps, e.g. "3200,-10%,+5%,2500": plain numbers are absolute prices,
+ * signed percentages move relative to the previous price.
+ */
+export function jumpsPath(start: number, jumps: string, interval: number) {
+  const path: PricePoint[] = [];
+  let price = start;
+  for (const raw of jumps.split(",").map(jump => jump.trim())) {
+    if (!raw) continue;
+    if (raw.endsWith("%")) {
+      price = price * (1 + Number(raw.slice(0, -1)) / 100);
+    } else {
+      price = Number(raw);
+    }
+    if (!Number.isFinite(price) || price <= 0) {
+      throw new Error(`Invalid jump "${raw}" (price would be ${price})`);
+    }
+    path.push({ price, interval });
+  }
+  return path;
+}
+
+/**
+ * Historical prices from a CSV file. Uses the "price" / "close" column (or the last column when there is
+ * no header). If a "timestamp" / "time" / "date" column exists, the gaps between rows become the step intervals.
+ */
+export function csvPath(file: string, interval: number) {
+  const rows = fs
+    .readFileSync(file)
+    .toString()
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => line.split(",").map(cell => cell.trim()));
+  if (rows.length === 0) throw new Error(`No rows in ${file}`);
+
+  const hasHeader = rows[0].some(cell => Number.isNaN(Number(cell)) && Number.isNaN(Date.parse(cell)));
+  const header = hasHeader ? rows[0].map(cell => cell.toLowerCase()) : [];
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  const priceColumn = hasHeader ? header.findIndex(name => name === "price" || name === "close") : -1;
+  const timeColumn = hasHeader ? header.findIndex(name => ["timestamp", "time", "date"].includes(name)) : -1;
+  const priceIndex = priceColumn !== -1 ? priceColumn : rows[0].length - 1;
+
+  const toSeconds = (cell: string) => (/^\d+$/.test(cell) ? Number(cell) : Date.parse(cell) / 1000);
+
+  const path: PricePoint[] = [];
+  let previousTime: number | undefined;
+  for (const row of dataRows) {
+    const price = Number(row[priceIndex]);
+    if (!Number.isFinite(price) || price <= 0) throw new Error(`Invalid price "${row[priceIndex]}" in ${file}`);
+
+    let stepInterval = interval;
+    if (timeColumn !== -1) {
+      const time = toSeconds(row[timeColumn]);
+      stepInterval = previousTime === undefined ? 0 : Math.max(0, Math.round(time - previousTime));
+      previousTime = time;
+    }
+    path.push({ price, interval: stepInterval });
+  }
+  return path;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+task("simulate:price", "Replays a price path against MockPriceFeed while advancing chain time")
+  .addOptionalParam("model", "Path model: gbm, jumps or csv", "gbm")
+  .addOptionalParam("start", "Starting price in USD (defaults to the current feed price)", undefined, types.float)
+  .addOptionalParam("vol", "Annualized volatility for gbm, e.g. 0.8 = 80%", 0.8, types.float)
+  .addOptionalParam("drift", "Annualized drift for gbm", 0, types.float)
+  .addOptionalParam("steps", "Number of gbm steps", 100, types.int)
+  .addOptionalParam("seed", "Random seed for gbm", Date.now() % 2 ** 32, types.int)
+  .addOptionalParam("jumps", 'Comma separated prices or moves for the jumps model, e.g. "3200,-10%,+5%"')
+  .addOptionalParam("csv", "CSV file with historical prices for the csv model")
+  .addOptionalParam("interval", "Chain seconds per step", 3600, types.int)
+  .addOptionalParam("speed", "Speed-up factor: chain seconds per wall-clock second (0 = no waiting)", 3600, types.float)
+  .setAction(async (args, hre: HardhatRuntimeEnvironment) => {
+    if (!developmentChains.includes(hre.network.name)) {
+      throw new Error(`simulate:price drives MockPriceFeed and only runs on local networks, not "${hre.network.name}"`);
+    }
+
+    const priceFeed = await hre.ethers.getContract<Contract>("MockPriceFeed");
+    const currentPrice = Number(formatUnits(await priceFeed.price(), FEED_DECIMALS));
+    const start: number = args.start ?? currentPrice;
+
+    let path: PricePoint[];
+    switch (args.model) {
+      case "gbm":
+        path = gbmPath(start, args.steps, args.interval, args.vol, args.drift, args.seed);
+        console.log(`🎲 GBM path: ${args.steps} steps, vol ${args.vol}, drift ${args.drift}, seed ${args.seed}`);
+        break;
+      case "jumps":
+        if (!args.jumps) throw new Error("--jumps is required for the jumps model");
+        path = jumpsPath(start, args.jumps, args.interval);
+        console.log(`🦘 Jump path: ${path.length} steps`);
+        break;
+      case "csv":
+        if (!args.csv) throw new Error("--csv is required for the csv model");
+        path = csvPath(args.csv, args.interval);
+        console.log(`📄 CSV path: ${path.length} steps from ${args.csv}`);
+        break;
+      default:
+        throw new Error(`Unknown model "${args.model}", expected gbm, jumps or csv`);
+    }
+
+    if (args.start !== undefined && args.start !== currentPrice) {
+      await (await priceFeed.setPrice(parseUnits(start.toFixed(FEED_DECIMALS), FEED_DECIMALS))).wait();
+    }
+    console.log(`💲 Starting at $${start.toFixed(2)}\n`);
+
+    let previousPrice = start;
+    for (const [index, point] of path.entries()) {
+      if (args.speed > 0 && point.interval > 0) {
+        await sleep((point.interval / args.speed) * 1000);
+      }
+      if (point.interval > 0) {
+        await hre.network.provider.send("evm_increaseTime", [point.interval]);
+      }
+      // setPrice mines the block, so the new price lands at the advanced timestamp
+      await (await priceFeed.setPrice(parseUnits(point.price.toFixed(FEED_DECIMALS), FEED_DECIMALS))).wait();
+
+      const block = await hre.ethers.provider.getBlock("latest");
+      const change = ((point.price - previousPrice) / previousPrice) * 100;
+      console.log(
+        `[${index + 1}/${path.length}] ${new Date((block?.timestamp ?? 0) * 1000).toISOString()}  $${point.price.toFixed(2)}  (${change >= 0 ? "+" : ""}${change.toFixed(2)}%)`,
+      );
+      previousPrice = point.price;
+    }
+
+    console.log(`\n🏁 Replayed ${path.length} steps, final price $${previousPrice.toFixed(2)}`);
+  });
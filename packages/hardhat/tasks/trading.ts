@@ -0,0 +1,207 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contract, formatEther, formatUnits, parseEther, parseUnits } from "ethers";
+import {
+  ensureAllowance,
+  getMarket,
+  getSigner,
+  getStable,
+  MarketName,
+  parseExpiry,
+  printTransactionEvents,
+} from "./utils";
+
+/**
+ * Terminal trading against Options, PhysicallySettledOptions and Futures in human units:
+ * strikes and prices in USD, option amounts in ETH, margin and liquidity in stablecoin units.
+ *
+ * e.g. (from packages/hardhat) yarn hardhat options:buy --type call --strike 3000 --expiry 2026-12-31 --amount 1.5 --network localhost
+ */
+
+const OPTION_TYPES: Record<string, number> = { call: 0, put: 1 };
+
+type BuyArgs = { type: string; strike: string; expiry: string; amount: string; signer: number };
+
+async function buyOption(hre: HardhatRuntimeEnvironment, marketName: MarketName, args: BuyArgs) {
+  const optType = OPTION_TYPES[args.type.toLowerCase()];
+  if (optType === undefined) throw new Error(`--type must be call or put, got "${args.type}"`);
+
+  const signer = await getSigner(hre, args.signer);
+  const market = await getMarket(hre, marketName, signer);
+  const stable = await getStable(hre, market, signer);
+
+  const block = await hre.ethers.provider.getBlock("latest");
+  const expiry = parseExpiry(args.expiry, block?.timestamp ?? Math.floor(Date.now() / 1000));
+  const strike = parseEther(args.strike);
+  const amount = parseEther(args.amount);
+
+  // Same arithmetic as the contracts' buyOption
+  let premium: bigint;
+  if (marketName === "Options") {
+    const normalizedAmount = amount / 10n ** 18n || 1n;
+    premium = (strike * normalizedAmount * 200n) / 10000n;
+  } else {
+    premium = (((strike * amount) / 10n ** 18n) * 300n) / 10000n;
+  }
+
+  console.log(
+    `🛒 ${marketName}: buying ${args.amount} ${args.type.toUpperCase()} @ $${args.strike} expiring ${new Date(expiry * 1000).toISOString()}`,
+  );
+  console.log(`   Premium ${formatUnits(premium, stable.decimals)} ${stable.symbol}`);
+
+  await ensureAllowance(stable, signer, await market.getAddress(), premium);
+  const tx = await market.buyOption(optType, strike, expiry, amount);
+  await printTransactionEvents(tx, [market.interface, stable.contract.interface], stable);
+}
+
+const addBuyParams = (name: string, description: string, marketName: MarketName) =>
+  task(name, description)
+    .addParam("type", "call or put")
+    .addParam("strike", "Strike price in USD, e.g. 3000")
+    .addParam("expiry", 'Expiry: ISO date ("2026-12-31"), unix timestamp or relative ("7d", "12h")')
+    .addParam("amount", "Option size in ETH, e.g. 1.5")
+    .addOptionalParam("signer", "Index of the signer to trade from", 0, types.int)
+    .setAction(async (args: BuyArgs, hre) => buyOption(hre, marketName, args));
+
+addBuyParams("options:buy", "Buys a cash-settled Options call or put", "Options");
+addBuyParams("pso:buy", "Buys a PhysicallySettledOptions call or put", "PhysicallySettledOptions");
+
+task("options:exercise", "Exercises an Options option (any time up to expiry)")
+  .addParam("id", "Option id", undefined, types.int)
+  .addOptionalParam("signer", "Index of the signer to trade from", 0, types.int)
+  .setAction(async ({ id, signer: signerIndex }: { id: number; signer: number }, hre) => {
+    const signer = await getSigner(hre, signerIndex);
+    const market = await getMarket(hre, "Options", signer);
+    const stable = await getStable(hre, market, signer);
+
+    const price: bigint = await market.getLatestPrice();
+    console.log(`🎯 Options: exercising #${id} at $${formatEther(price)}`);
+    const tx = await market.exerciseOption(id);
+    await printTransactionEvents(tx, [market.interface, stable.contract.interface], stable);
+  });
+
+task("pso:exercise", "Exercises a PhysicallySettledOptions option (at or after expiry)")
+  .addParam("id", "Option id", undefined, types.int)
+  .addOptionalParam("signer", "Index of the signer to trade from", 0, types.int)
+  .setAction(async ({ id, signer: signerIndex }: { id: number; signer: number }, hre) => {
+    const signer = await getSigner(hre, signerIndex);
+    const market = await getMarket(hre, "PhysicallySettledOptions", signer);
+    const stable = await getStable(hre, market, signer);
+
+    const option = await market.options(id);
+    const isCall = Number(option.optionType) === 0;
+    const [strike, amount]: bigint[] = [option.strike, option.amount];
+    const stableLeg = (strike * amount) / 10n ** 18n;
+
+    let tx;
+    if (isCall) {
+      // Pay strike * amount in stable, receive `amount` ETH
+      console.log(
+        `🎯 PhysicallySettledOptions: exercising CALL #${id}, paying ${formatUnits(stableLeg, stable.decimals)} ${stable.symbol} for ${formatEther(option.amount)} ETH`,
+      );
+      await ensureAllowance(stable, signer, await market.getAddress(), stableLeg);
+      tx = await market.exerciseOption(id);
+    } else {
+      // Deliver exactly `amount` ETH, receive strike * amount in stable
+      console.log(
+        `🎯 PhysicallySettledOptions: exercising PUT #${id}, delivering ${formatEther(option.amount)} ETH for ${formatUnits(stableLeg, stable.decimals)} ${stable.symbol}`,
+      );
+      tx = await market.exerciseOption(id, { value: option.amount });
+    }
+    await printTransactionEvents(tx, [market.interface, stable.contract.interface], stable);
+  });
+
+task("futures:open", "Opens a leveraged Futures position")
+  .addParam("side", "long or short")
+  .addParam("margin", "Margin in stablecoin units, e.g. 500")
+  .addParam("leverage", "Leverage, 1 to MAX_LEVERAGE", undefined, types.int)
+  .addOptionalParam("signer", "Index of the signer to trade from", 0, types.int)
+  .setAction(async (args: { side: string; margin: string; leverage: number; signer: number }, hre) => {
+    const side = args.side.toLowerCase();
+    if (side !== "long" && side !== "short") throw new Error(`--side must be long or short, got "${args.side}"`);
+
+    const signer = await getSigner(hre, args.signer);
+    const market = await getMarket(hre, "Futures", signer);
+    const stable = await getStable(hre, market, signer);
+    const margin = parseUnits(args.margin, stable.decimals);
+
+    console.log(`📈 Futures: opening ${side} ${args.leverage}x with ${args.margin} ${stable.symbol} margin`);
+    await ensureAllowance(stable, signer, await market.getAddress(), margin);
+    const tx = await market.openPosition(margin, args.leverage, side === "long");
+    await printTransactionEvents(tx, [market.interface, stable.contract.interface], stable);
+  });
+
+task("futures:close", "Closes the signer's Futures position")
+  .addOptionalParam("signer", "Index of the signer to trade from", 0, types.int)
+  .setAction(async ({ signer: signerIndex }: { signer: number }, hre) => {
+    const signer = await getSigner(hre, signerIndex);
+    const market = await getMarket(hre, "Futures", signer);
+    const stable = await getStable(hre, market, signer);
+
+    console.log(`📉 Futures: closing position of ${await signer.getAddress()}`);
+    const tx = await market.closePosition();
+    await printTransactionEvents(tx, [market.interface, stable.contract.interface], stable);
+  });
+
+/**
+ * Liquidity pools: the Options and Futures LP pools, and the two PhysicallySettledOptions collateral pools
+ */
+const POOLS: Record<string, { market: MarketName; deposit: string; withdraw: string; unit: "stable" | "eth" }> = {
+  options: { market: "Options", deposit: "provideLiquidity", withdraw: "withdrawLiquidity", unit: "stable" },
+  futures: { market: "Futures", deposit: "provideLiquidity", withdraw: "withdrawLiquidity", unit: "stable" },
+  "pso-eth": {
+    market: "PhysicallySettledOptions",
+    deposit: "provideEthCollateral",
+    withdraw: "withdrawEthCollateral",
+    unit: "eth",
+  },
+  "pso-stable": {
+    market: "PhysicallySettledOptions",
+    deposit: "provideStableCollateral",
+    withdraw: "withdrawStableCollateral",
+    unit: "stable",
+  },
+};
+
+async function getPool(hre: HardhatRuntimeEnvironment, poolName: string, signerIndex: number) {
+  const pool = POOLS[poolName];
+  if (!pool) throw new Error(`--pool must be one of ${Object.keys(POOLS).join(", ")}, got "${poolName}"`);
+  const signer = await getSigner(hre, signerIndex);
+  const market: Contract = await getMarket(hre, pool.market, signer);
+  const stable = await getStable(hre, market, signer);
+  return { pool, signer, market, stable };
+}
+
+task("lp:deposit", "Deposits liquidity into a pool")
+  .addParam("pool", `Pool: ${Object.keys(POOLS).join(", ")}`)
+  .addParam("amount", "Amount in stablecoin units (ETH for pso-eth)")
+  .addOptionalParam("signer", "Index of the signer to deposit from", 0, types.int)
+  .setAction(async (args: { pool: string; amount: string; signer: number }, hre) => {
+    const { pool, signer, market, stable } = await getPool(hre, args.pool, args.signer);
+
+    let tx;
+    if (pool.unit === "eth") {
+      console.log(`🏦 ${pool.market}: depositing ${args.amount} ETH`);
+      tx = await market.getFunction(pool.deposit)({ value: parseEther(args.amount) });
+    } else {
+      const amount = parseUnits(args.amount, stable.decimals);
+      console.log(`🏦 ${pool.market}: depositing ${args.amount} ${stable.symbol}`);
+      await ensureAllowance(stable, signer, await market.getAddress(), amount);
+      tx = await market.getFunction(pool.deposit)(amount);
+    }
+    await printTransactionEvents(tx, [market.interface, stable.contract.interface], stable);
+  });
+
+task("lp:withdraw", "Withdraws liquidity from a pool")
+  .addParam("pool", `Pool: ${Object.keys(POOLS).join(", ")}`)
+  .addParam("amount", "LP shares for options / futures, collateral amount for pso-eth (ETH) and pso-stable")
+  .addOptionalParam("signer", "Index of the signer to withdraw to", 0, types.int)
+  .setAction(async (args: { pool: string; amount: string; signer: number }, hre) => {
+    const { pool, market, stable } = await getPool(hre, args.pool, args.signer);
+
+    // LP shares are minted 1:1 with the first deposit, so they share the stablecoin's decimals
+    const amount = pool.unit === "eth" ? parseEther(args.amount) : parseUnits(args.amount, stable.decimals);
+    console.log(`🏧 ${pool.market}: withdrawing ${args.amount} via ${pool.withdraw}`);
+    const tx = await market.getFunction(pool.withdraw)(amount);
+    await printTransactionEvents(tx, [market.interface, stable.contract.interface], stable);
+  });
@@ -0,0 +1,147 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contract, ContractTransactionResponse, formatEther, formatUnits, Interface, Signer } from "ethers";
+import type { IERC20Metadata } from "../typechain-types";
+
+export type MarketName = "Options" | "PhysicallySettledOptions" | "Futures";
+
+type Unit = "usd" | "eth" | "stable" | "shares" | "date";
+
+/**
+ * How to display event arguments. Anything not listed is printed as is.
+ * Prices and option amounts are 1e18 scaled in every contract, collateral and fees are in the stablecoin.
+ */
+const EVENT_ARG_UNITS: Record<string, Record<string, Unit>> = {
+  OptionPurchased: {
+    strike: "usd",
+    expiry: "date",
+    amount: "eth",
+    premium: "stable",
+    collateralLocked: "stable",
+  },
+  OptionExercised: { payout: "stable", stableInOrOut: "stable", ethInOrOut: "eth" },
+  ProvidedLiquidity: { amount: "stable", shares: "shares" },
+  WithdrewLiquidity: { shareAmount: "shares", stableOut: "stable" },
+  ProvidedEthCollateral: { ethAmount: "eth" },
+  WithdrawnEthCollateral: { ethAmount: "eth" },
+  ProvidedStableCollateral: { stableAmount: "stable" },
+  WithdrawnStableCollateral: { stableAmount: "stable" },
+  PositionOpened: { margin: "stable", entryPrice: "usd", size: "stable", fee: "stable" },
+  PositionClosed: { exitPrice: "usd", pnl: "stable", payout: "stable" },
+  PositionLiquidated: { price: "usd", pnl: "stable", liquidationFee: "stable" },
+  FeesDistributed: { adminFee: "stable", lpFee: "stable" },
+  FeesWithdrawn: { amount: "stable" },
+  Transfer: { value: "stable" },
+  Approval: { value: "stable" },
+};
+
+const ENUM_ARGS: Record<string, string[]> = {
+  optType: ["CALL", "PUT"],
+  optionType: ["CALL", "PUT"],
+  posType: ["NONE", "LONG", "SHORT"],
+};
+
+export async function getMarket(hre: HardhatRuntimeEnvironment, name: MarketName, signer?: Signer) {
+  const contract = await hre.ethers.getContractOrNull<Contract>(name, signer);
+  if (!contract) throw new Error(`${name} is not deployed on ${hre.network.name}`);
+  return contract;
+}
+
+/**
+ * The stablecoin a market settles in, with its decimals and symbol
+ */
+export async function getStable(hre: HardhatRuntimeEnvironment, market: Contract, signer?: Signer) {
+  // Options and PhysicallySettledOptions call it `stable`, Futures `stableCoin`
+  const address: string = market.interface.hasFunction("stable") ? await market.stable() : await market.stableCoin();
+  const contract = await hre.ethers.getContractAt("IERC20Metadata", address, signer);
+  const decimals = Number(await contract.decimals());
+  const symbol: string = await contract.symbol();
+  return { contract, decimals, symbol };
+}
+
+export async function getSigner(hre: HardhatRuntimeEnvironment, index: number) {
+  const signers = await hre.ethers.getSigners();
+  if (!signers[index]) throw new Error(`No signer #${index}, only ${signers.length} available`);
+  return signers[index];
+}
+
+/**
+ * Approves `spender` for `amount` unless the current allowance already covers it
+ */
+export async function ensureAllowance(
+  stable: { contract: IERC20Metadata; decimals: number; symbol: string },
+  owner: Signer,
+  spender: string,
+  amount: bigint,
+) {
+  const allowance = await stable.contract.allowance(await owner.getAddress(), spender);
+  if (allowance >= amount) return;
+  console.log(`🔓 Approving ${formatUnits(amount, stable.decimals)} ${stable.symbol}`);
+  const tx = await stable.contract.connect(owner).approve(spender, amount);
+  await tx.wait();
+}
+
+function formatArg(name: string, value: unknown, unit: Unit | undefined, stableDecimals: number, stableSymbol: string) {
+  if (typeof value !== "bigint") return String(value);
+  if (ENUM_ARGS[name]) return ENUM_ARGS[name][Number(value)] ?? String(value);
+  switch (unit) {
+    case "usd":
+      return `$${formatEther(value)}`;
+    case "eth":
+      return `${formatEther(value)} ETH`;
+    case "stable":
+      return `${formatUnits(value, stableDecimals)} ${stableSymbol}`;
+    // LP shares are minted 1:1 with the first deposit, so they share the stablecoin's decimals
+    case "shares":
+      return formatUnits(value, stableDecimals);
+    case "date":
+      return new Date(Number(value) * 1000).toISOString();
+    default:
+      return value.toString();
+  }
+}
+
+/**
+ * Waits for the transaction and prints every event it emitted that one of `interfaces` can decode
+ */
+export async function printTransactionEvents(
+  tx: ContractTransactionResponse,
+  interfaces: Interface[],
+  stable: { decimals: number; symbol: string },
+) {
+  const receipt = await tx.wait();
+  if (!receipt) throw new Error(`No receipt for ${tx.hash}`);
+  console.log(`✅ Mined in block ${receipt.blockNumber} (${tx.hash}), gas used ${receipt.gasUsed}`);
+
+  const events = [];
+  for (const log of receipt.logs) {
+    for (const contractInterface of interfaces) {
+      const parsed = contractInterface.parseLog(log);
+      if (!parsed) continue;
+      const units = EVENT_ARG_UNITS[parsed.name] ?? {};
+      const args = parsed.fragment.inputs.map(
+        (input, i) =>
+          `${input.name}=${formatArg(input.name, parsed.args[i], units[input.name], stable.decimals, stable.symbol)}`,
+      );
+      console.log(`   📣 ${parsed.name}(${args.join(", ")})`);
+      events.push(parsed);
+      break;
+    }
+  }
+  return events;
+}
+
+/**
+ * Accepts an ISO date ("2026-12-31", "2026-12-31T08:00:00Z"), a unix timestamp or a relative "7d" / "12h" / "30m"
+ */
+export function parseExpiry(expiry: string, now: number) {
+  const relative = expiry.match(/^(\d+(?:\.\d+)?)([dhm])$/);
+  if (relative) {
+    const seconds = { d: 86400, h: 3600, m: 60 }[relative[2] as "d" | "h" | "m"];
+    return now + Math.round(Number(relative[1]) * seconds);
+  }
+  if (/^\d+$/.test(expiry)) return Number(expiry);
+
+  const timestamp = Date.parse(expiry);
+  if (Number.isNaN(timestamp)) throw new Error(`Can't parse expiry "${expiry}"`);
+  return Math.floor(timestamp / 1000);
+}
@@ -0,0 +1,139 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { MaxUint256, parseEther, Signer } from "ethers";
+import { ExerciseFunds, getExerciseWindow, getMoneyness, planExercise } from "../../nextjs/utils/options/exercise";
+import { getIntrinsicValue } from "../../nextjs/utils/options/quote";
+import { MockPriceFeed, MockStableCoin, Options, PhysicallySettledOptions } from "../typechain-types";
+import { deployMocks, deployOptions, deployPhysicallySettledOptions, latestTimestamp } from "./helpers/fixtures";
+
+/**
+ * The portfolio page's exercise windows, intrinsic values and the exercise wizard's requirements
+ * (packages/nextjs/utils/options/exercise.ts) against what the contracts allow and pay
+ */
+
+describe("Exercise rules", function () {
+  let stable: MockStableCoin;
+  let priceFeed: MockPriceFeed;
+  let lp: Signer;
+  let buyer: Signer;
+
+  const setNextTimestamp = (timestamp: bigint) =>
+    ethers.provider.send("evm_setNextBlockTimestamp", [Number(timestamp)]);
+
+  const approveMarket = async <T extends Options | PhysicallySettledOptions>(market: T) => {
+    await stable.connect(lp).approve(await market.getAddress(), MaxUint256);
+    await stable.connect(buyer).approve(await market.getAddress(), MaxUint256);
+    return market;
+  };
+
+  beforeEach(async () => {
+    [lp, buyer] = await ethers.getSigners();
+    ({ stable, priceFeed } = await deployMocks());
+    await stable.mint(await lp.getAddress(), 10n ** 43n);
+    await stable.mint(await buyer.getAddress(), parseEther("100000"));
+  });
+
+  it("should let Options be exercised up to and including expiry", async () => {
+    const options = await approveMarket(await deployOptions({ stable, priceFeed }));
+    await options.connect(lp).provideLiquidity(10n ** 42n);
+    const expiry = (await latestTimestamp()) + 3600n;
+    await options.connect(buyer).buyOption(1, parseEther("3200"), expiry, parseEther("2"));
+    await options.connect(buyer).buyOption(1, parseEther("3200"), expiry, parseEther("2"));
+
+    await setNextTimestamp(expiry);
+    expect(getExerciseWindow("Options", { expiry, isActive: true }, expiry)).to.equal("open");
+    const payout = getIntrinsicValue(
+      "Options",
+      { type: "put", strike: parseEther("3200"), amount: parseEther("2") },
+      parseEther("3000"),
+    );
+    expect(payout).to.equal(parseEther("400"));
+    await expect(options.connect(buyer).exerciseOption(0)).to.changeTokenBalance(stable, buyer, payout);
+
+    expect(getExerciseWindow("Options", { expiry, isActive: true }, expiry + 1n)).to.equal("missed");
+    await expect(options.connect(buyer).exerciseOption(1)).to.be.revertedWith("Option expired");
+    expect(getExerciseWindow("Options", { expiry, isActive: false }, expiry)).to.equal("closed");
+  });
+
+  it("should only let PhysicallySettledOptions be exercised at or after expiry", async () => {
+    const pso = await approveMarket(await deployPhysicallySettledOptions({ stable, priceFeed }));
+    await pso.connect(lp).provideEthCollateral({ value: parseEther("1") });
+    const expiry = (await latestTimestamp()) + 3600n;
+    const terms = { type: "call" as const, strike: parseEther("2800"), amount: parseEther("1") };
+    await pso.connect(buyer).buyOption(0, terms.strike, expiry, terms.amount);
+
+    expect(getExerciseWindow("PhysicallySettledOptions", { expiry, isActive: true }, expiry - 1n)).to.equal("notYet");
+    await setNextTimestamp(expiry - 1n);
+    await expect(pso.connect(buyer).exerciseOption(0)).to.be.revertedWith("Not at or past expiry");
+
+    // Buying 1 ETH for $2,800 with ETH at $3,000
+    expect(getIntrinsicValue("PhysicallySettledOptions", terms, parseEther("3000"))).to.equal(parseEther("200"));
+    expect(getIntrinsicValue("PhysicallySettledOptions", terms, parseEther("2700"))).to.equal(0n);
+    expect(getExerciseWindow("PhysicallySettledOptions", { expiry, isActive: true }, expiry)).to.equal("open");
+    await setNextTimestamp(expiry);
+    await expect(pso.connect(buyer).exerciseOption(0)).to.changeEtherBalance(buyer, terms.amount);
+  });
+
+  it("should classify moneyness against the strike", async () => {
+    expect(getMoneyness("call", parseEther("2800"), parseEther("3000")).moneyness).to.equal("ITM");
+    expect(getMoneyness("put", parseEther("2800"), parseEther("3000")).moneyness).to.equal("OTM");
+    expect(getMoneyness("put", parseEther("3010"), parseEther("3000")).moneyness).to.equal("ATM");
+    expect(getMoneyness("put", parseEther("2500"), parseEther("2000")).distance).to.be.closeTo(0.2, 1e-12);
+  });
+
+  it("should plan the exact approval a physically settled call needs", async () => {
+    const pso = await approveMarket(await deployPhysicallySettledOptions({ stable, priceFeed }));
+    await pso.connect(lp).provideEthCollateral({ value: parseEther("1") });
+    const expiry = (await latestTimestamp()) + 3600n;
+    const terms = { type: "call" as const, strike: parseEther("2800"), amount: parseEther("0.5") };
+    await pso.connect(buyer).buyOption(0, terms.strike, expiry, terms.amount);
+    await ethers.provider.send("evm_mine", [Number(expiry)]);
+
+    const readFunds = async (): Promise<ExerciseFunds> => ({
+      stableBalance: await stable.balanceOf(await buyer.getAddress()),
+      allowance: await stable.allowance(await buyer.getAddress(), await pso.getAddress()),
+      ethBalance: await ethers.provider.getBalance(await buyer.getAddress()),
+    });
+    await stable.connect(buyer).approve(await pso.getAddress(), 0n);
+    const plan = planExercise("PhysicallySettledOptions", terms, parseEther("3000"), await readFunds());
+    expect(plan.stableFromBuyer).to.equal(parseEther("1400"));
+    expect(plan.ethFromBuyer).to.equal(0n);
+    expect(plan.needsApproval).to.equal(true);
+    expect(plan.value).to.equal(parseEther("100"));
+
+    await stable.connect(buyer).approve(await pso.getAddress(), plan.stableFromBuyer - 1n);
+    await expect(pso.connect(buyer).exerciseOption(0)).to.be.reverted;
+    await stable.connect(buyer).approve(await pso.getAddress(), plan.stableFromBuyer);
+    expect(
+      planExercise("PhysicallySettledOptions", terms, parseEther("3000"), await readFunds()).needsApproval,
+    ).to.equal(false);
+    await expect(pso.connect(buyer).exerciseOption(0)).to.changeTokenBalance(stable, buyer, -plan.stableFromBuyer);
+  });
+
+  it("should plan the ETH a physically settled put sends and let it be exercised out of the money", async () => {
+    const pso = await approveMarket(await deployPhysicallySettledOptions({ stable, priceFeed }));
+    await pso.connect(lp).provideStableCollateral(parseEther("10000"));
+    const expiry = (await latestTimestamp()) + 3600n;
+    const terms = { type: "put" as const, strike: parseEther("2800"), amount: parseEther("2") };
+    await pso.connect(buyer).buyOption(1, terms.strike, expiry, terms.amount);
+    await ethers.provider.send("evm_mine", [Number(expiry)]);
+
+    const funds = { stableBalance: 0n, allowance: 0n, ethBalance: parseEther("1") };
+    const plan = planExercise("PhysicallySettledOptions", terms, parseEther("3000"), funds);
+    expect(plan.ethFromBuyer).to.equal(terms.amount);
+    expect(plan.needsApproval).to.equal(false);
+    expect(plan.isEthShort).to.equal(true);
+    // Selling 2 ETH worth $6,000 for $5,600
+    expect(plan.value).to.equal(-parseEther("400"));
+
+    await expect(pso.connect(buyer).exerciseOption(0, { value: plan.ethFromBuyer - 1n })).to.be.revertedWith(
+      "Must send the exact amount of ETH to sell",
+    );
+    // No price check, the loss is the buyer's to take
+    await expect(pso.connect(buyer).exerciseOption(0, { value: plan.ethFromBuyer })).to.changeTokenBalance(
+      stable,
+      buyer,
+      plan.stableToBuyer,
+    );
+  });
+});
@@ -56,7 +56,17 @@ describe("Futures Contract", function () {
 
     // Approve and open a long position
     await stableCoin.connect(trader1).approve(await futures.getAddress(), margin);
-    await futures.connect(trader1).openPosition(margin, leverage, true);
+    await expect(futures.connect(trader1).openPosition(margin, leverage, true))
+      .to.emit(futures, "PositionOpened")
+      .withArgs(
+        await trader1.getAddress(),
+        1, // LONG
+        parseUnits("999", stableDecimals),
+        leverage,
+        parseUnits("3000", 18),
+        margin * BigInt(leverage),
+        parseUnits("1", stableDecimals),
+      );
 
     // Position margin = 1000 - 1 => 999
     const pos = await futures.positions(await trader1.getAddress());
@@ -71,7 +81,16 @@ describe("Futures Contract", function () {
     await priceFeedMock.setPrice(parseUnits("3300", 8));
 
     const balanceBefore = await stableCoin.balanceOf(await trader1.getAddress());
-    await futures.connect(trader1).closePosition();
+    // PnL = (3300 - 3000) * 999 * 3 / 3000 = 299.7 => payout = 999 + 299.7
+    await expect(futures.connect(trader1).closePosition())
+      .to.emit(futures, "PositionClosed")
+      .withArgs(
+        await trader1.getAddress(),
+        1, // LONG
+        parseUnits("3300", 18),
+        parseUnits("299.7", stableDecimals),
+        parseUnits("1298.7", stableDecimals),
+      );
     const balanceAfter = await stableCoin.balanceOf(await trader1.getAddress());
 
     // Trader should profit from the price increase
@@ -101,8 +120,17 @@ describe("Futures Contract", function () {
     const canLiquidate = await futures.checkLiquidation(await trader2.getAddress());
     expect(canLiquidate).to.equal(true);
 
-    // Liquidate
-    await futures.liquidate(await trader2.getAddress());
+    // Liquidate => PnL = -(4000 - 3000) * 999 * 4 / 3000 = -1332
+    await expect(futures.liquidate(await trader2.getAddress()))
+      .to.emit(futures, "PositionLiquidated")
+      .withArgs(
+        await trader2.getAddress(),
+        await owner.getAddress(),
+        2, // SHORT
+        parseUnits("4000", 18),
+        -parseUnits("1332", stableDecimals),
+        parseUnits("49.95", stableDecimals),
+      );
     const position = await futures.positions(await trader2.getAddress());
     expect(position.isOpen).to.equal(false);
 
@@ -132,7 +160,9 @@ describe("Futures Contract", function () {
 
     // Approve and provide liquidity from lpProvider
     await stableCoin.connect(lpProvider).approve(await futures.getAddress(), provideAmount);
-    await futures.connect(lpProvider).provideLiquidity(provideAmount);
+    await expect(futures.connect(lpProvider).provideLiquidity(provideAmount))
+      .to.emit(futures, "ProvidedLiquidity")
+      .withArgs(await lpProvider.getAddress(), provideAmount, provideAmount);
 
     // The first deposit => 1:1 shares
     const lpShares = await futures.lpShares(await lpProvider.getAddress());
@@ -149,9 +179,12 @@ describe("Futures Contract", function () {
     const totalShares2 = await futures.totalLpShares();
     expect(totalShares2).to.be.gt(provideAmount);
 
-    // Withdraw some shares
+    // Withdraw some shares => pro rata share of the balance net of fees
     const sharesToWithdraw = parseUnits("1500", stableDecimals);
-    await futures.connect(lpProvider).withdrawLiquidity(sharesToWithdraw);
+    const [, , liquidity] = await futures.getPlatformStats();
+    await expect(futures.connect(lpProvider).withdrawLiquidity(sharesToWithdraw))
+      .to.emit(futures, "WithdrewLiquidity")
+      .withArgs(await lpProvider.getAddress(), sharesToWithdraw, (sharesToWithdraw * liquidity) / totalShares2);
 
     // Check new shares
     const lpSharesAfter = await futures.lpShares(await lpProvider.getAddress());
@@ -181,7 +214,9 @@ describe("Futures Contract", function () {
     const adminAddr = await owner.getAddress();
     const adminStableBefore = await stableCoin.balanceOf(adminAddr);
 
-    await futures.connect(owner).distributeFees();
+    await expect(futures.connect(owner).distributeFees())
+      .to.emit(futures, "FeesDistributed")
+      .withArgs(parseUnits("0.2", stableDecimals), parseUnits("0.8", stableDecimals));
 
     // Fees should now be zero
     const feesAfterDist = await futures.accumulatedFees();
@@ -193,6 +228,18 @@ describe("Futures Contract", function () {
     expect(diff).to.equal(parseUnits("0.2", stableDecimals));
   });
 
+  it("should let the admin withdraw fees", async function () {
+    const margin = parseUnits("1000", stableDecimals);
+    await stableCoin.connect(trader1).approve(await futures.getAddress(), margin);
+    await futures.connect(trader1).openPosition(margin, 2, false);
+
+    const fees = await futures.accumulatedFees();
+    await expect(futures.connect(owner).withdrawFees(fees))
+      .to.emit(futures, "FeesWithdrawn")
+      .withArgs(await owner.getAddress(), fees);
+    expect(await futures.accumulatedFees()).to.equal(0n);
+  });
+
   it("should get platform stats correctly", async function () {
     // open a long position => margin=1000, lev=3 => totalLongSize=3000
     const margin = parseUnits("1000", stableDecimals);
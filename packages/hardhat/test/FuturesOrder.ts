@@ -0,0 +1,77 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { MaxUint256, parseUnits, Signer } from "ethers";
+import { FuturesAccountState, FuturesOrder, getFuturesOrderIssue } from "../../nextjs/utils/futures";
+import { Futures, MockStableCoin } from "../typechain-types";
+import { deployFutures, deployMocks } from "./helpers/fixtures";
+
+/**
+ * The futures terminal's pre-flight checks (packages/nextjs/utils/futures/order.ts) against `openPosition`
+ */
+
+describe("Futures order checks", function () {
+  const stableDecimals = 6;
+  let futures: Futures;
+  let stableCoin: MockStableCoin;
+  let trader: Signer;
+
+  const readState = async (): Promise<FuturesAccountState> => {
+    const address = await trader.getAddress();
+    const contractBalance = await stableCoin.balanceOf(await futures.getAddress());
+    const accumulatedFees = await futures.accumulatedFees();
+    return {
+      hasOpenPosition: (await futures.positions(address)).isOpen,
+      maxLeverage: await futures.MAX_LEVERAGE(),
+      availableLiquidity: contractBalance - accumulatedFees,
+      balance: await stableCoin.balanceOf(address),
+    };
+  };
+  const openPosition = ({ side, deposit, leverage }: FuturesOrder) =>
+    futures.connect(trader).openPosition(deposit, leverage, side === "long");
+
+  beforeEach(async () => {
+    [, trader] = await ethers.getSigners();
+    const mocks = await deployMocks(stableDecimals);
+    stableCoin = mocks.stable;
+    futures = await deployFutures(mocks);
+
+    await stableCoin.mint(await trader.getAddress(), parseUnits("1000", stableDecimals));
+    await stableCoin.mint(await futures.getAddress(), parseUnits("5000", stableDecimals));
+    await stableCoin.connect(trader).approve(await futures.getAddress(), MaxUint256);
+  });
+
+  it("should reject leverage outside 1x to MAX_LEVERAGE", async () => {
+    const state = await readState();
+    const order: FuturesOrder = { side: "long", deposit: parseUnits("100", stableDecimals), leverage: 6n };
+    expect(getFuturesOrderIssue(order, state)).to.equal("invalidLeverage");
+    await expect(openPosition(order)).to.be.revertedWith("Invalid leverage");
+    expect(getFuturesOrderIssue({ ...order, leverage: 0n }, state)).to.equal("invalidLeverage");
+  });
+
+  it("should reject margin the contract's liquidity can't back", async () => {
+    await stableCoin.mint(await trader.getAddress(), parseUnits("10000", stableDecimals));
+    const order: FuturesOrder = { side: "short", deposit: parseUnits("6000", stableDecimals), leverage: 2n };
+    expect(getFuturesOrderIssue(order, await readState())).to.equal("noLiquidity");
+    await expect(openPosition(order)).to.be.revertedWith("Not enough liquidity");
+  });
+
+  it("should reject margin above the trader's balance", async () => {
+    const order: FuturesOrder = { side: "long", deposit: parseUnits("2000", stableDecimals), leverage: 2n };
+    expect(getFuturesOrderIssue(order, await readState())).to.equal("insufficientBalance");
+    await expect(openPosition(order)).to.be.reverted;
+  });
+
+  it("should allow one position per address", async () => {
+    const order: FuturesOrder = { side: "long", deposit: parseUnits("100", stableDecimals), leverage: 5n };
+    expect(getFuturesOrderIssue(order, await readState())).to.equal(undefined);
+    await openPosition(order);
+
+    // Even in the other direction
+    const hedge: FuturesOrder = { ...order, side: "short" };
+    expect(getFuturesOrderIssue(hedge, await readState())).to.equal("positionOpen");
+    await expect(openPosition(hedge)).to.be.revertedWith("Position already open");
+
+    await futures.connect(trader).closePosition();
+    expect(getFuturesOrderIssue(hedge, await readState())).to.equal(undefined);
+  });
+});
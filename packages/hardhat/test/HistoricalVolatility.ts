@@ -0,0 +1,128 @@
+import { expect } from "chai";
+import { anyUint } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { ethers } from "hardhat";
+import { parseUnits } from "ethers";
+import { SECONDS_PER_YEAR } from "../../nextjs/utils/options/blackScholes";
+import {
+  fetchRoundHistory,
+  getRealizedVolatility,
+  pickVolatility,
+  PriceRound,
+  VOLATILITY_WINDOWS,
+} from "../../nextjs/utils/volatility/historicalVolatility";
+import { MockPriceFeed } from "../typechain-types";
+import { deployMocks, latestTimestamp } from "./helpers/fixtures";
+
+/**
+ * MockPriceFeed round history and the realized volatility estimator
+ * (packages/nextjs/utils/volatility/historicalVolatility.ts)
+ */
+
+describe("Historical volatility", function () {
+  let priceFeed: MockPriceFeed;
+
+  const toRound = ([roundId, answer, , updatedAt]: bigint[]): PriceRound => ({ roundId, answer, updatedAt });
+
+  beforeEach(async () => {
+    ({ priceFeed } = await deployMocks());
+  });
+
+  describe("MockPriceFeed", function () {
+    it("should record a round for every price set", async () => {
+      await priceFeed.setPrice(parseUnits("3100", 8));
+      await ethers.provider.send("evm_increaseTime", [3600]);
+      await expect(priceFeed.setPrice(parseUnits("2900", 8)))
+        .to.emit(priceFeed, "AnswerUpdated")
+        .withArgs(parseUnits("2900", 8), 3, anyUint);
+
+      const [roundId, answer, , updatedAt, answeredInRound] = await priceFeed.latestRoundData();
+      expect(roundId).to.equal(3n);
+      expect(answeredInRound).to.equal(3n);
+      expect(answer).to.equal(parseUnits("2900", 8));
+      expect(updatedAt).to.equal(await latestTimestamp());
+
+      const [, firstAnswer] = await priceFeed.getRoundData(1);
+      expect(firstAnswer).to.equal(parseUnits("3000", 8));
+      expect(await priceFeed.price()).to.equal(parseUnits("2900", 8));
+    });
+
+    it("should revert for rounds that don't exist", async () => {
+      await expect(priceFeed.getRoundData(0)).to.be.revertedWith("No data present");
+      await expect(priceFeed.getRoundData(2)).to.be.revertedWith("No data present");
+    });
+  });
+
+  describe("Estimator", function () {
+    // Alternating +1% / -1% moves an hour apart
+    const setPrices = async (count: number) => {
+      let price = 3000;
+      for (let i = 0; i < count; i++) {
+        price *= i % 2 === 0 ? 1.01 : 1 / 1.01;
+        await ethers.provider.send("evm_increaseTime", [3600]);
+        await priceFeed.setPrice(parseUnits(price.toFixed(8), 8));
+      }
+    };
+
+    it("should walk back to the start of the window and only fetch new rounds", async () => {
+      await setPrices(10);
+      let reads = 0;
+      const readRound = async (roundId: bigint) => {
+        reads++;
+        return toRound(await priceFeed.getRoundData(roundId));
+      };
+      const cache = new Map<bigint, PriceRound>();
+
+      const latest = toRound(await priceFeed.latestRoundData());
+      const rounds = await fetchRoundHistory(readRound, latest, 0n, { cache });
+      expect(rounds.map(round => round.roundId)).to.deep.equal(Array.from({ length: 11 }, (_, i) => BigInt(i + 1)));
+      expect(reads).to.equal(10);
+
+      await setPrices(2);
+      const next = await fetchRoundHistory(readRound, toRound(await priceFeed.latestRoundData()), 0n, { cache });
+      expect(next).to.have.length(13);
+      expect(reads).to.equal(11);
+
+      // Stops at the last round before `since`
+      const recent = await fetchRoundHistory(readRound, toRound(await priceFeed.latestRoundData()), next[10].updatedAt);
+      expect(recent.map(round => round.roundId)).to.deep.equal([11n, 12n, 13n]);
+    });
+
+    it("should annualize the squared log returns over the time elapsed", async () => {
+      await setPrices(24);
+      const now = await latestTimestamp();
+      const rounds = await fetchRoundHistory(
+        async roundId => toRound(await priceFeed.getRoundData(roundId)),
+        toRound(await priceFeed.latestRoundData()),
+        now - 86400n,
+      );
+
+      const [day] = VOLATILITY_WINDOWS;
+      const estimate = getRealizedVolatility(rounds, now, day);
+      // 24 returns of 1% over the last 24 hours, the first one starting at the window's start
+      const expected = Math.sqrt((24 * Math.log(1.01) ** 2) / (86400 / SECONDS_PER_YEAR));
+      expect(estimate.returns).to.equal(24);
+      expect(estimate.volatility).to.be.closeTo(expected, expected * 1e-3);
+    });
+
+    it("should need a few returns and prefer the longest window", async () => {
+      await setPrices(2);
+      const now = await latestTimestamp();
+      const rounds = await fetchRoundHistory(
+        async roundId => toRound(await priceFeed.getRoundData(roundId)),
+        toRound(await priceFeed.latestRoundData()),
+        0n,
+      );
+      const estimates = VOLATILITY_WINDOWS.map(window => getRealizedVolatility(rounds, now, window));
+      expect(estimates.every(estimate => estimate.volatility === undefined)).to.equal(true);
+      expect(pickVolatility(estimates)).to.equal(undefined);
+
+      expect(
+        pickVolatility([
+          { label: "24h", seconds: 86400, volatility: 0.9, returns: 5 },
+          { label: "7d", seconds: 7 * 86400, volatility: 0.6, returns: 30 },
+          { label: "30d", seconds: 30 * 86400, returns: 0 },
+        ]),
+      ).to.equal(0.6);
+    });
+  });
+});
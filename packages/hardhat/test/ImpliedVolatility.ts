@@ -0,0 +1,147 @@
+import { expect } from "chai";
+import { parseEther } from "ethers";
+import { blackScholesPrice, BlackScholesParams } from "../../nextjs/utils/options/blackScholes";
+import { getPremium } from "../../nextjs/utils/options/quote";
+import {
+  getPremiumImpliedVolatility,
+  impliedVolatility,
+  MAX_IMPLIED_VOLATILITY,
+} from "../../nextjs/utils/options/impliedVolatility";
+
+/**
+ * The frontend's implied volatility solver (packages/nextjs/utils/options), it runs here as the
+ * nextjs package has no test runner.
+ */
+
+describe("Implied volatility solver", function () {
+  const roundTrip = (params: BlackScholesParams) => impliedVolatility({ ...params, price: blackScholesPrice(params) });
+
+  describe("Reference values", function () {
+    it("should match Hull's textbook example", async function () {
+      // Hull, Options, Futures and Other Derivatives: S=21, K=20, r=10%, T=3 months, call at 1.875 => ~23.5%
+      const volatility = impliedVolatility({
+        type: "call",
+        spot: 21,
+        strike: 20,
+        rate: 0.1,
+        timeToExpiry: 0.25,
+        price: 1.875,
+      });
+      expect(volatility).to.be.closeTo(0.235, 0.001);
+    });
+
+    it("should recover 20% from the standard at-the-money call and put", async function () {
+      // S=K=100, r=5%, T=1, sigma=20% => call 10.4506, put 5.5735
+      const base = { spot: 100, strike: 100, rate: 0.05, timeToExpiry: 1 };
+      expect(impliedVolatility({ ...base, type: "call", price: 10.4506 })).to.be.closeTo(0.2, 1e-4);
+      expect(impliedVolatility({ ...base, type: "put", price: 5.5735 })).to.be.closeTo(0.2, 1e-4);
+    });
+  });
+
+  describe("Round trips", function () {
+    const cases: [string, BlackScholesParams][] = [
+      ["at the money", { type: "call", spot: 3000, strike: 3000, volatility: 0.8, rate: 0, timeToExpiry: 30 / 365 }],
+      [
+        "deep in the money call",
+        { type: "call", spot: 3000, strike: 1000, volatility: 0.8, rate: 0, timeToExpiry: 0.1 },
+      ],
+      [
+        "deep out of the money call",
+        { type: "call", spot: 3000, strike: 9000, volatility: 0.6, rate: 0, timeToExpiry: 1 },
+      ],
+      [
+        "deep in the money put",
+        { type: "put", spot: 1500, strike: 4000, volatility: 0.7, rate: 0.03, timeToExpiry: 0.5 },
+      ],
+      [
+        "deep out of the money put",
+        { type: "put", spot: 3000, strike: 1200, volatility: 0.9, rate: 0, timeToExpiry: 0.5 },
+      ],
+      [
+        "an hour to expiry",
+        { type: "put", spot: 3000, strike: 3010, volatility: 0.5, rate: 0, timeToExpiry: 1 / 8760 },
+      ],
+      ["very high volatility", { type: "call", spot: 3000, strike: 3000, volatility: 4, rate: 0, timeToExpiry: 1 }],
+      ["very low volatility", { type: "call", spot: 3000, strike: 3100, volatility: 0.05, rate: 0, timeToExpiry: 0.5 }],
+    ];
+
+    for (const [name, params] of cases) {
+      it(`should recover the volatility ${name}`, async function () {
+        expect(roundTrip(params)).to.be.closeTo(params.volatility, 1e-4);
+      });
+    }
+  });
+
+  describe("Edge cases", function () {
+    const call = { type: "call" as const, spot: 3000, strike: 2500, rate: 0, timeToExpiry: 0.25 };
+
+    it("should reject prices below intrinsic value", async function () {
+      expect(impliedVolatility({ ...call, price: 499 })).to.equal(undefined);
+    });
+
+    it("should return zero for a price equal to intrinsic value", async function () {
+      expect(impliedVolatility({ ...call, price: 500 })).to.equal(0);
+    });
+
+    it("should reject prices at or above the no-arbitrage upper bound", async function () {
+      expect(impliedVolatility({ ...call, price: 3000 })).to.equal(undefined);
+      expect(impliedVolatility({ ...call, type: "put", price: 2500 })).to.equal(undefined);
+    });
+
+    it("should reject prices only reachable above the maximum volatility", async function () {
+      const price = blackScholesPrice({ ...call, volatility: MAX_IMPLIED_VOLATILITY * 1.5 });
+      expect(impliedVolatility({ ...call, price })).to.equal(undefined);
+    });
+
+    it("should reject expired options and invalid inputs", async function () {
+      expect(impliedVolatility({ ...call, timeToExpiry: 0, price: 600 })).to.equal(undefined);
+      expect(impliedVolatility({ ...call, timeToExpiry: -1, price: 600 })).to.equal(undefined);
+      expect(impliedVolatility({ ...call, spot: 0, price: 600 })).to.equal(undefined);
+      expect(impliedVolatility({ ...call, price: NaN })).to.equal(undefined);
+    });
+  });
+
+  describe("On-chain premiums", function () {
+    const now = 1_800_000_000n;
+    const spot = parseEther("3000");
+
+    it("should price the premium back at the implied volatility", async function () {
+      const quote = {
+        type: "call" as const,
+        strike: parseEther("3000"),
+        expiry: now + 30n * 86400n,
+        amount: parseEther("2"),
+      };
+      const volatility = getPremiumImpliedVolatility("Options", quote, spot, now);
+      expect(volatility).to.not.equal(undefined);
+
+      const premiumPerUnit = Number(getPremium("Options", quote.strike, quote.amount)) / 2 / 1e18;
+      const price = blackScholesPrice({
+        type: "call",
+        spot: 3000,
+        strike: 3000,
+        rate: 0,
+        timeToExpiry: 30 / 365,
+        volatility: volatility!,
+      });
+      expect(price).to.be.closeTo(premiumPerUnit, 1e-6);
+    });
+
+    it("should imply a higher volatility for the 3% PhysicallySettledOptions premium", async function () {
+      const quote = {
+        type: "put" as const,
+        strike: parseEther("3000"),
+        expiry: now + 7n * 86400n,
+        amount: parseEther("1"),
+      };
+      const options = getPremiumImpliedVolatility("Options", quote, spot, now)!;
+      const physical = getPremiumImpliedVolatility("PhysicallySettledOptions", quote, spot, now)!;
+      expect(physical).to.be.greaterThan(options);
+    });
+
+    it("should have no implied volatility once expired", async function () {
+      const quote = { type: "call" as const, strike: parseEther("3000"), expiry: now, amount: parseEther("1") };
+      expect(getPremiumImpliedVolatility("Options", quote, spot, now)).to.equal(undefined);
+    });
+  });
+});
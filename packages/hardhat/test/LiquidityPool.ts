@@ -0,0 +1,129 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { MaxUint256, parseEther, Signer } from "ethers";
+import {
+  getDepositForShares,
+  getLiquidityHistory,
+  getShareValue,
+  getSharesForDeposit,
+  getSharesForWithdrawal,
+  getUtilization,
+  getWithdrawableShares,
+  PoolState,
+} from "../../nextjs/utils/liquidity";
+import { MockStableCoin, Options } from "../typechain-types";
+import { deployMocks, deployOptions } from "./helpers/fixtures";
+
+/**
+ * The LP dashboard's share math (packages/nextjs/utils/liquidity) against the Options pool
+ */
+
+describe("Liquidity pool", function () {
+  let stable: MockStableCoin;
+  let options: Options;
+  let lp: Signer;
+  let buyer: Signer;
+
+  const readPool = async (): Promise<PoolState> => ({
+    totalLiquidity: await options.totalLiquidity(),
+    lockedCollateral: await options.lockedCollateral(),
+    totalLpShares: await options.totalLpShares(),
+  });
+
+  beforeEach(async () => {
+    [lp, buyer] = await ethers.getSigners();
+    const mocks = await deployMocks();
+    stable = mocks.stable;
+    options = await deployOptions(mocks);
+
+    for (const signer of [lp, buyer]) {
+      await stable.mint(await signer.getAddress(), parseEther("1000000"));
+      await stable.connect(signer).approve(await options.getAddress(), MaxUint256);
+    }
+  });
+
+  it("should quote the shares minted and the stablecoins paid out", async () => {
+    const deposit = parseEther("10000");
+    expect(getSharesForDeposit(deposit, await readPool())).to.equal(deposit);
+    await expect(options.connect(lp).provideLiquidity(deposit))
+      .to.emit(options, "ProvidedLiquidity")
+      .withArgs(await lp.getAddress(), deposit, deposit);
+
+    const shares = parseEther("1234.5");
+    const pool = await readPool();
+    await expect(options.connect(lp).withdrawLiquidity(shares))
+      .to.emit(options, "WithdrewLiquidity")
+      .withArgs(await lp.getAddress(), shares, getShareValue(shares, pool));
+  });
+
+  it("should cap withdrawals at the unlocked liquidity", async () => {
+    await options.connect(lp).provideLiquidity(parseEther("10000"));
+    const expiry = BigInt((await ethers.provider.getBlock("latest"))!.timestamp) + 3600n;
+    // Options locks strike * amount unscaled, 6,000 stablecoins for an amount of 2 wei
+    await options.connect(buyer).buyOption(0, parseEther("3000"), expiry, 2n);
+
+    const pool = await readPool();
+    expect(getUtilization(pool)).to.equal(0.6);
+    const shares = await options.lpShares(await lp.getAddress());
+    const withdrawable = getWithdrawableShares(shares, pool);
+    // The contract rounds the pool fraction to 18 decimals, a few more shares than 4,000 still pay out 4,000
+    expect(withdrawable).to.be.gte(parseEther("4000"));
+    expect(getShareValue(withdrawable, pool)).to.equal(parseEther("4000"));
+
+    await expect(options.connect(lp).withdrawLiquidity(withdrawable + 1n)).to.be.revertedWith(
+      "Not enough unlocked liquidity",
+    );
+    await expect(options.connect(lp).withdrawLiquidity(withdrawable)).to.changeTokenBalance(
+      stable,
+      lp,
+      parseEther("4000"),
+    );
+  });
+
+  it("should convert between stablecoins and shares at any price per share", () => {
+    const pool = { totalLiquidity: parseEther("1500"), lockedCollateral: 0n, totalLpShares: parseEther("1000") };
+    expect(getDepositForShares(parseEther("10"), pool)).to.equal(parseEther("15"));
+    expect(getSharesForDeposit(getDepositForShares(7n, pool), pool)).to.be.gte(7n);
+
+    const withdrawal = parseEther("100") + 1n;
+    const shares = getSharesForWithdrawal(withdrawal, pool);
+    expect(getShareValue(shares, pool)).to.be.gte(withdrawal);
+    expect(getShareValue(shares - 1n, pool)).to.be.lt(withdrawal);
+  });
+
+  it("should find the fewest shares for a withdrawal from a large pool", () => {
+    // 100M shares worth 1.05 each, where a 1e-18 fraction is worth far more than one share
+    const totalLpShares = parseEther("100000000") + 7n;
+    const pool = { totalLiquidity: (totalLpShares * 105n) / 100n + 3n, lockedCollateral: 0n, totalLpShares };
+
+    for (const withdrawal of [1n, parseEther("0.5") + 1n, parseEther("1234.567"), pool.totalLiquidity / 3n]) {
+      const shares = getSharesForWithdrawal(withdrawal, pool);
+      expect(getShareValue(shares, pool)).to.be.gte(withdrawal);
+      expect(getShareValue(shares - 1n, pool)).to.be.lt(withdrawal);
+    }
+  });
+
+  it("should realize withdrawals against the average cost of the shares", () => {
+    const { entries, deposited, withdrawn, costBasis, realizedPnl } = getLiquidityHistory([
+      // Events come newest first
+      { kind: "withdrawal", stable: parseEther("900"), shares: parseEther("600"), blockNumber: 3n, logIndex: 0 },
+      { kind: "deposit", stable: parseEther("2000"), shares: parseEther("1000"), blockNumber: 2n, logIndex: 0 },
+      { kind: "deposit", stable: parseEther("1000"), shares: parseEther("1000"), blockNumber: 1n, logIndex: 0 },
+    ]);
+
+    expect(entries.map(entry => entry.blockNumber)).to.deep.equal([1n, 2n, 3n]);
+    // 600 of 2,000 shares bought for 3,000
+    expect(entries[2].costBasis).to.equal(parseEther("900"));
+    expect(entries[2].realizedPnl).to.equal(0n);
+    expect(deposited).to.equal(parseEther("3000"));
+    expect(withdrawn).to.equal(parseEther("900"));
+    expect(costBasis).to.equal(parseEther("2100"));
+    expect(realizedPnl).to.equal(0n);
+
+    const { entries: profitable } = getLiquidityHistory([
+      { kind: "deposit", stable: parseEther("1000"), shares: parseEther("1000"), blockNumber: 1n, logIndex: 0 },
+      { kind: "withdrawal", stable: parseEther("550"), shares: parseEther("500"), blockNumber: 1n, logIndex: 1 },
+    ]);
+    expect(profitable[1].realizedReturn).to.be.closeTo(0.1, 1e-12);
+  });
+});
@@ -0,0 +1,66 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { parseEther, Signer } from "ethers";
+import { getChainStrikes, getStandardExpiries } from "../../nextjs/utils/options/chain";
+import { getPremium } from "../../nextjs/utils/options/quote";
+import { deployMocks, deployOptions, latestTimestamp } from "./helpers/fixtures";
+
+/**
+ * The /options chain's strikes and expiries (packages/nextjs/utils/options/chain.ts)
+ */
+
+describe("Option chain", function () {
+  // Wednesday 2026-10-14 12:00 UTC
+  const now = BigInt(Date.UTC(2026, 9, 14, 12) / 1000);
+
+  it("should center strikes on spot rounded to the step", async () => {
+    expect(getChainStrikes(parseEther("3049.99"), parseEther("100"), 2)).to.deep.equal(
+      ["2800", "2900", "3000", "3100", "3200"].map(strike => parseEther(strike)),
+    );
+    // No zero or negative strikes near a tiny spot
+    expect(getChainStrikes(parseEther("150"), parseEther("100"), 3)[0]).to.equal(parseEther("100"));
+  });
+
+  it("should list weekly Fridays and the last Fridays of the month at 08:00 UTC", async () => {
+    const expiries = getStandardExpiries(now);
+    const dates = expiries.map(({ expiry, kind }) => [new Date(Number(expiry) * 1000).toISOString(), kind]);
+    expect(dates).to.deep.equal([
+      ["2026-10-16T08:00:00.000Z", "weekly"],
+      ["2026-10-23T08:00:00.000Z", "weekly"],
+      ["2026-10-30T08:00:00.000Z", "monthly"],
+      ["2026-11-27T08:00:00.000Z", "monthly"],
+    ]);
+  });
+
+  it("should skip an expiry less than an hour away", async () => {
+    const fridayMorning = BigInt(Date.UTC(2026, 9, 16, 7, 30) / 1000);
+    const [first] = getStandardExpiries(fridayMorning, 1, 0);
+    expect(new Date(Number(first.expiry) * 1000).toISOString()).to.equal("2026-10-23T08:00:00.000Z");
+  });
+
+  it("should buy a chain option after approving exactly its premium", async () => {
+    const [lp, buyer]: Signer[] = await ethers.getSigners();
+    const mocks = await deployMocks();
+    const { stable } = mocks;
+    const options = await deployOptions(mocks);
+    const optionsAddress = await options.getAddress();
+
+    await stable.mint(await lp.getAddress(), 10n ** 43n);
+    await stable.mint(await buyer.getAddress(), parseEther("10000"));
+    await stable.connect(lp).approve(optionsAddress, 10n ** 43n);
+    await options.connect(lp).provideLiquidity(10n ** 43n);
+
+    const [{ expiry }] = getStandardExpiries(await latestTimestamp());
+    const strike = getChainStrikes(await options.getLatestPrice())[6];
+    const amount = parseEther("2");
+    const premium = getPremium("Options", strike, amount);
+
+    await stable.connect(buyer).approve(optionsAddress, premium);
+    await expect(options.connect(buyer).buyOption(0, strike, expiry, amount)).to.changeTokenBalance(
+      stable,
+      buyer,
+      -premium,
+    );
+    expect(await stable.allowance(await buyer.getAddress(), optionsAddress)).to.equal(0n);
+  });
+});
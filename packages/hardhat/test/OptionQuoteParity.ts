@@ -0,0 +1,217 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { MaxUint256, parseEther, parseUnits, Signer } from "ethers";
+import { getExerciseFlows, getNotional, OptionTerms, quoteOption } from "../../nextjs/utils/options/quote";
+import { MockPriceFeed, MockStableCoin, Options, PhysicallySettledOptions } from "../typechain-types";
+import { deployMocks, deployOptions, deployPhysicallySettledOptions, latestTimestamp } from "./helpers/fixtures";
+
+/**
+ * Checks the frontend quote engine (packages/nextjs/utils/options/quote.ts) against the contracts:
+ * every premium, locked collateral, exercise transfer and liquidity check must match to the wei.
+ */
+
+describe("Option quote engine parity", function () {
+  let stable: MockStableCoin;
+  let priceFeed: MockPriceFeed;
+  let lp: Signer;
+  let buyer: Signer;
+
+  const OPTION_TYPES = { call: 0, put: 1 };
+  const strikes = [parseEther("2500"), parseEther("3000.5"), parseEther("3500")];
+  const amounts = [parseEther("0.5"), parseEther("1"), parseEther("1.9"), parseEther("2.5"), parseEther("3")];
+
+  const approveMarket = async <T extends Options | PhysicallySettledOptions>(market: T) => {
+    await stable.connect(lp).approve(await market.getAddress(), MaxUint256);
+    await stable.connect(buyer).approve(await market.getAddress(), MaxUint256);
+    return market;
+  };
+
+  beforeEach(async () => {
+    [lp, buyer] = await ethers.getSigners();
+    ({ stable, priceFeed } = await deployMocks());
+    // Options locks strike * amount unscaled, so its pool needs around 1e41 wei for these sizes
+    await stable.mint(await lp.getAddress(), 10n ** 43n);
+    await stable.mint(await buyer.getAddress(), parseUnits("10000000", 18));
+  });
+
+  describe("Options", function () {
+    let options: Options;
+
+    beforeEach(async () => {
+      options = await approveMarket(await deployOptions({ stable, priceFeed }));
+      await options.connect(lp).provideLiquidity(10n ** 42n);
+    });
+
+    it("should match premium, collateral and cash payoff for every strike, size and type", async () => {
+      const expiry = (await latestTimestamp()) + 7n * 86400n;
+      const bought: { id: number; terms: OptionTerms }[] = [];
+
+      for (const type of ["call", "put"] as const) {
+        for (const strike of strikes) {
+          for (const amount of amounts) {
+            const terms = { type, strike, amount };
+            const quote = quoteOption("Options", terms);
+            const balanceBefore = await stable.balanceOf(await buyer.getAddress());
+            const lockedBefore = await options.lockedCollateral();
+
+            const id = bought.length;
+            await expect(options.connect(buyer).buyOption(OPTION_TYPES[type], strike, expiry, amount))
+              .to.emit(options, "OptionPurchased")
+              .withArgs(
+                id,
+                await buyer.getAddress(),
+                OPTION_TYPES[type],
+                strike,
+                expiry,
+                amount,
+                quote.premium,
+                quote.collateral.stable,
+              );
+
+            expect(balanceBefore - (await stable.balanceOf(await buyer.getAddress()))).to.equal(quote.premium);
+            expect((await options.lockedCollateral()) - lockedBefore).to.equal(quote.collateral.stable);
+            bought.push({ id, terms });
+          }
+        }
+      }
+
+      // Calls below 3200 and puts above it are in the money
+      const price = parseEther("3200");
+      await priceFeed.setPrice(parseUnits("3200", 8));
+
+      for (const { id, terms } of bought) {
+        const flows = getExerciseFlows("Options", terms, price);
+        const balanceBefore = await stable.balanceOf(await buyer.getAddress());
+        await expect(options.connect(buyer).exerciseOption(id))
+          .to.emit(options, "OptionExercised")
+          .withArgs(id, flows.stableToBuyer);
+        expect((await stable.balanceOf(await buyer.getAddress())) - balanceBefore).to.equal(flows.stableToBuyer);
+      }
+    });
+
+    it("should report truncated sizes as the contract charges them", async () => {
+      expect(
+        quoteOption("Options", { type: "call", strike: strikes[0], amount: parseEther("1.9") }).truncatedAmount,
+      ).to.equal(parseEther("1"));
+      expect(
+        quoteOption("Options", { type: "call", strike: strikes[0], amount: parseEther("0.5") }).truncatedAmount,
+      ).to.equal(parseEther("1"));
+      expect(
+        quoteOption("Options", { type: "call", strike: strikes[0], amount: parseEther("2") }).truncatedAmount,
+      ).to.equal(undefined);
+    });
+
+    it("should lock 1e18 times the notional", async () => {
+      const terms: OptionTerms = { type: "call", strike: parseEther("3000"), amount: parseEther("1") };
+      expect(getNotional(terms.strike, terms.amount)).to.equal(parseEther("3000"));
+      expect(quoteOption("Options", terms).collateral.stable).to.equal(parseEther("3000") * 10n ** 18n);
+    });
+
+    it("should predict when the pool is short of liquidity", async () => {
+      const small = await approveMarket(await deployOptions({ stable, priceFeed }));
+      const terms = { type: "put" as const, strike: parseEther("3000"), amount: parseEther("1") };
+      const { stable: collateral } = quoteOption("Options", terms).collateral;
+      await small.connect(lp).provideLiquidity(collateral);
+      const expiry = (await latestTimestamp()) + 86400n;
+
+      const free = async () => {
+        const [total, locked] = [await small.totalLiquidity(), await small.lockedCollateral()];
+        return { stable: total - locked, eth: 0n };
+      };
+
+      expect(quoteOption("Options", terms, await free()).hasLiquidity).to.equal(true);
+      await small.connect(buyer).buyOption(OPTION_TYPES.put, terms.strike, expiry, terms.amount);
+
+      expect(quoteOption("Options", terms, await free()).hasLiquidity).to.equal(false);
+      await expect(
+        small.connect(buyer).buyOption(OPTION_TYPES.put, terms.strike, expiry, terms.amount),
+      ).to.be.revertedWith("Not enough pool liquidity");
+    });
+  });
+
+  describe("PhysicallySettledOptions", function () {
+    let pso: PhysicallySettledOptions;
+
+    beforeEach(async () => {
+      pso = await approveMarket(await deployPhysicallySettledOptions({ stable, priceFeed }));
+      await pso.connect(lp).provideEthCollateral({ value: parseEther("20") });
+      await pso.connect(lp).provideStableCollateral(parseUnits("100000", 18));
+    });
+
+    it("should match premium, locked collateral and settlement for every strike, size and type", async () => {
+      const psoAmounts = [parseEther("0.5"), parseEther("1.23456789"), parseEther("2")];
+      const expiry = (await latestTimestamp()) + 3600n;
+      const bought: { id: number; terms: OptionTerms }[] = [];
+
+      for (const type of ["call", "put"] as const) {
+        for (const strike of strikes) {
+          for (const amount of psoAmounts) {
+            const terms = { type, strike, amount };
+            const quote = quoteOption("PhysicallySettledOptions", terms);
+            const lockedEthBefore = await pso.lockedEth();
+            const lockedStableBefore = await pso.lockedStable();
+
+            const id = bought.length;
+            await expect(pso.connect(buyer).buyOption(OPTION_TYPES[type], strike, expiry, amount))
+              .to.emit(pso, "OptionPurchased")
+              .withArgs(id, await buyer.getAddress(), OPTION_TYPES[type], strike, expiry, amount, quote.premium);
+
+            expect((await pso.lockedEth()) - lockedEthBefore).to.equal(quote.collateral.eth);
+            expect((await pso.lockedStable()) - lockedStableBefore).to.equal(quote.collateral.stable);
+            bought.push({ id, terms });
+          }
+        }
+      }
+
+      await ethers.provider.send("evm_increaseTime", [3600]);
+      await ethers.provider.send("evm_mine", []);
+
+      for (const { id, terms } of bought) {
+        // Physical settlement ignores the price
+        const flows = getExerciseFlows("PhysicallySettledOptions", terms, 0n);
+        const stableBefore = await stable.balanceOf(await buyer.getAddress());
+
+        if (terms.type === "call") {
+          const tx = pso.connect(buyer).exerciseOption(id);
+          await expect(tx).to.emit(pso, "OptionExercised").withArgs(id, flows.stableFromBuyer, flows.ethToBuyer);
+          await expect(tx).to.changeEtherBalance(buyer, flows.ethToBuyer);
+          expect(stableBefore - (await stable.balanceOf(await buyer.getAddress()))).to.equal(flows.stableFromBuyer);
+        } else {
+          await expect(pso.connect(buyer).exerciseOption(id, { value: flows.ethFromBuyer }))
+            .to.emit(pso, "OptionExercised")
+            .withArgs(id, flows.stableToBuyer, flows.ethFromBuyer);
+          expect((await stable.balanceOf(await buyer.getAddress())) - stableBefore).to.equal(flows.stableToBuyer);
+        }
+      }
+    });
+
+    it("should predict when the ETH or stable pool is short of collateral", async () => {
+      const expiry = (await latestTimestamp()) + 3600n;
+      const free = async () => {
+        const [totalStable, lockedStable, totalEth, lockedEth] = [
+          await pso.totalStableCollateral(),
+          await pso.lockedStable(),
+          await pso.totalEthCollateral(),
+          await pso.lockedEth(),
+        ];
+        return { stable: totalStable - lockedStable, eth: totalEth - lockedEth };
+      };
+
+      const bigCall = { type: "call" as const, strike: parseEther("3000"), amount: parseEther("21") };
+      expect(quoteOption("PhysicallySettledOptions", bigCall, await free()).hasLiquidity).to.equal(false);
+      await expect(
+        pso.connect(buyer).buyOption(OPTION_TYPES.call, bigCall.strike, expiry, bigCall.amount),
+      ).to.be.revertedWith("Not enough free ETH collateral");
+
+      const bigPut = { type: "put" as const, strike: parseEther("3000"), amount: parseEther("34") };
+      expect(quoteOption("PhysicallySettledOptions", bigPut, await free()).hasLiquidity).to.equal(false);
+      await expect(
+        pso.connect(buyer).buyOption(OPTION_TYPES.put, bigPut.strike, expiry, bigPut.amount),
+      ).to.be.revertedWith("Not enough free stable collateral");
+
+      const fits = { type: "put" as const, strike: parseEther("3000"), amount: parseEther("33") };
+      expect(quoteOption("PhysicallySettledOptions", fits, await free()).hasLiquidity).to.equal(true);
+      await pso.connect(buyer).buyOption(OPTION_TYPES.put, fits.strike, expiry, fits.amount);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { MaxUint256, parseEther, parseUnits, Signer } from "ethers";
+import {
+  FUTURES_SIDES,
+  FuturesPosition,
+  getClosePayout,
+  getLiquidationPrice,
+  getPositionValue,
+  isLiquidatable,
+} from "../../nextjs/utils/futures/position";
+import { getFuturesScenarios, quoteFuturesOrder } from "../../nextjs/utils/futures/margin";
+import { getBreakevens, getExpiryPnl, getPayoffCurve, PayoffPosition } from "../../nextjs/utils/payoff/payoff";
+import { Futures, MockPriceFeed, MockStableCoin } from "../typechain-types";
+import { deployFutures, deployMocks } from "./helpers/fixtures";
+
+/**
+ * Checks the frontend payoff math (packages/nextjs/utils/futures and utils/payoff) against the Futures
+ * contract, and the payoff curve of simple option positions.
+ */
+
+describe("Payoff math", function () {
+  describe("Futures parity", function () {
+    let futures: Futures;
+    let stable: MockStableCoin;
+    let priceFeed: MockPriceFeed;
+    let trader: Signer;
+
+    const stableDecimals = 6;
+    const MAINTENANCE_MARGIN_RATIO = 10n;
+
+    // The feed has 8 decimals, `getLatestPrice` scales it to 18
+    const setPrice = (price: bigint) => priceFeed.setPrice(price / 10n ** 10n);
+
+    const readPosition = async (): Promise<FuturesPosition & { raw: Futures.PositionStruct }> => {
+      const { posType, margin, entryPrice, leverage, isOpen } = await futures.positions(await trader.getAddress());
+      // The returned Result is frozen, ethers can't encode it back as an argument
+      const raw = { posType, margin, entryPrice, leverage, isOpen };
+      return { side: FUTURES_SIDES[Number(posType)]!, margin, entryPrice, leverage, raw };
+    };
+
+    beforeEach(async () => {
+      [, trader] = await ethers.getSigners();
+
+      ({ stable, priceFeed } = await deployMocks(stableDecimals));
+      futures = await deployFutures({ stable, priceFeed });
+
+      await stable.mint(await trader.getAddress(), parseUnits("10000", stableDecimals));
+      await stable.mint(await futures.getAddress(), parseUnits("100000", stableDecimals));
+      await stable.connect(trader).approve(await futures.getAddress(), MaxUint256);
+    });
+
+    for (const isLong of [true, false]) {
+      for (const leverage of [1n, 3n, 5n]) {
+        it(`should match value and liquidation of a ${leverage}x ${isLong ? "long" : "short"}`, async () => {
+          await futures.connect(trader).openPosition(parseUnits("1234.567", stableDecimals), leverage, isLong);
+          const position = await readPosition();
+
+          for (const price of [parseEther("2100.5"), parseEther("2999.99"), parseEther("3333.33")]) {
+            expect(getPositionValue(position, price)).to.equal(await futures.getPositionValue(position.raw, price));
+          }
+
+          const liquidationPrice = getLiquidationPrice(position, MAINTENANCE_MARGIN_RATIO);
+          // A cent on either side of the liquidation price, rounded to a price the 8 decimals feed can report
+          const cent = parseEther("0.01");
+          const feedUnit = 10n ** 10n;
+          const safe = isLong ? liquidationPrice + cent : liquidationPrice - cent;
+          const unsafe = isLong ? liquidationPrice - cent : liquidationPrice + cent;
+
+          for (const [price, expected] of [
+            [safe, false],
+            [unsafe, true],
+          ] as const) {
+            const feedPrice = (price / feedUnit) * feedUnit;
+            await setPrice(feedPrice);
+            expect(isLiquidatable(position, feedPrice, MAINTENANCE_MARGIN_RATIO)).to.equal(expected);
+            expect(await futures.checkLiquidation(await trader.getAddress())).to.equal(expected);
+          }
+        });
+      }
+    }
+
+    it("should quote the fee and stored margin of openPosition from the contract's parameters", async () => {
+      const params = {
+        tradingFeeBps: await futures.tradingFeeBps(),
+        maintenanceMarginRatio: await futures.MAINTENANCE_MARGIN_RATIO(),
+      };
+      const deposit = parseUnits("777.777777", stableDecimals);
+      const quote = quoteFuturesOrder({ side: "long", deposit, leverage: 2n }, await futures.getLatestPrice(), params);
+
+      await expect(futures.connect(trader).openPosition(deposit, 2n, true))
+        .to.emit(futures, "PositionOpened")
+        .withArgs(
+          await trader.getAddress(),
+          1,
+          quote.position.margin,
+          2n,
+          quote.position.entryPrice,
+          deposit * 2n,
+          quote.fee,
+        );
+      const { side, margin, leverage, entryPrice } = await readPosition();
+      expect({ side, margin, leverage, entryPrice }).to.deep.equal(quote.position);
+    });
+
+    it("should report scenarios past the liquidation price as liquidated with no payout", async () => {
+      await futures.connect(trader).openPosition(parseUnits("1000", stableDecimals), 5n, true);
+      const position = await readPosition();
+      const [safe, liquidated] = getFuturesScenarios(
+        position,
+        [parseEther("2900"), parseEther("2400")],
+        MAINTENANCE_MARGIN_RATIO,
+      );
+
+      expect(safe.isLiquidated).to.equal(false);
+      expect(safe.payout).to.equal(position.margin + safe.pnl);
+      expect(liquidated).to.include({ isLiquidated: true, payout: 0n });
+    });
+
+    it("should pay out what getClosePayout predicts", async () => {
+      await futures.connect(trader).openPosition(parseUnits("1000", stableDecimals), 4n, false);
+      const position = await readPosition();
+      const price = parseEther("2871.23");
+      await setPrice(price);
+
+      const balanceBefore = await stable.balanceOf(await trader.getAddress());
+      await futures.connect(trader).closePosition();
+      expect((await stable.balanceOf(await trader.getAddress())) - balanceBefore).to.equal(
+        getClosePayout(position, price),
+      );
+    });
+  });
+
+  describe("Option payoff curves", function () {
+    const now = 1_800_000_000n;
+    const expiry = now + 30n * 86400n;
+
+    const option = (type: "call" | "put", strike: string, premium: string): PayoffPosition => ({
+      kind: "option",
+      market: "Options",
+      type,
+      strike: parseEther(strike),
+      amount: parseEther("1"),
+      expiry,
+      premium: parseEther(premium),
+    });
+
+    it("should lose the premium out of the money and gain intrinsic value in the money", async () => {
+      const call = option("call", "3000", "60");
+      expect(getExpiryPnl(call, parseEther("2500"))).to.equal(-60);
+      expect(getExpiryPnl(call, parseEther("3200"))).to.equal(140);
+    });
+
+    it("should find both breakevens of a long straddle", async () => {
+      const straddle = [option("call", "3000", "60"), option("put", "3000", "60")];
+      const curve = getPayoffCurve(straddle, 2000, 4000, { now, volatility: 0.8, samples: 401 });
+      const breakevens = getBreakevens(curve);
+      expect(breakevens).to.have.length(2);
+      expect(breakevens[0]).to.be.closeTo(2880, 1e-6);
+      expect(breakevens[1]).to.be.closeTo(3120, 1e-6);
+    });
+
+    it("should value the position above its expiry payoff before expiry", async () => {
+      const curve = getPayoffCurve([option("call", "3000", "60")], 2500, 3500, { now, volatility: 0.8, samples: 11 });
+      for (const point of curve) expect(point.current).to.be.greaterThan(point.expiry);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { expect } from "chai";
+import { parseEther } from "ethers";
+import { SECONDS_PER_YEAR, blackScholesPrice } from "../../nextjs/utils/options/blackScholes";
+import { getOptionUnits, OptionPayoffPosition } from "../../nextjs/utils/payoff/payoff";
+import { simulatePoolRisk } from "../../nextjs/utils/poolRisk/monteCarlo";
+
+/**
+ * The LP Monte Carlo risk model (packages/nextjs/utils/poolRisk/monteCarlo.ts)
+ */
+
+describe("Pool risk simulation", function () {
+  const now = 1_800_000_000n;
+  const spot = parseEther("3000");
+  const volatility = 0.8;
+  const liquidity = parseEther("100000");
+
+  const call: OptionPayoffPosition = {
+    kind: "option",
+    market: "Options",
+    type: "call",
+    strike: parseEther("3000"),
+    amount: parseEther("2"),
+    expiry: now + 30n * 86400n,
+    premium: parseEther("120"),
+  };
+
+  it("should keep every premium when no option can pay out", async () => {
+    const farOutOfTheMoney = { ...call, strike: parseEther("1000000") };
+    const expired = { ...call, type: "put" as const, expiry: now - 1n, premium: parseEther("60") };
+    const result = simulatePoolRisk({ options: [farOutOfTheMoney, expired], spot, now, volatility, liquidity });
+
+    expect(result.expectedPnl).to.equal(180);
+    expect(result.expectedReturn).to.be.closeTo(180 / 100000, 1e-12);
+    expect(result).to.include({ drawdownProbability: 0, valueAtRisk95: 0, valueAtRisk99: 0, stdDev: 0 });
+    expect(result.horizon).to.equal(30 * 86400);
+  });
+
+  it("should expect to pay the Black-Scholes value of the options", async () => {
+    const result = simulatePoolRisk({ options: [call], spot, now, volatility, liquidity, paths: 20000 });
+    const value =
+      blackScholesPrice({
+        type: "call",
+        spot: 3000,
+        strike: 3000,
+        volatility,
+        rate: 0,
+        timeToExpiry: (30 * 86400) / SECONDS_PER_YEAR,
+      }) * getOptionUnits(call);
+
+    // Within about three standard errors
+    expect(result.expectedPayout).to.be.closeTo(value, (3 * result.stdDev) / Math.sqrt(result.paths));
+    expect(result.expectedPnl).to.be.closeTo(result.premiums - result.expectedPayout, 1e-9);
+    // An at the money call pays out more than a 2% premium about half the time
+    expect(result.drawdownProbability).to.be.within(0.4, 0.5);
+    expect(result.valueAtRisk99).to.be.greaterThan(result.valueAtRisk95);
+    expect(result.expectedShortfall95).to.be.greaterThan(result.valueAtRisk95);
+  });
+
+  it("should be reproducible for a seed and add up its histogram", async () => {
+    const inputs = { options: [call, { ...call, type: "put" as const }], spot, now, volatility, liquidity };
+    const first = simulatePoolRisk({ ...inputs, seed: 7 });
+    expect(simulatePoolRisk({ ...inputs, seed: 7 })).to.deep.equal(first);
+    expect(simulatePoolRisk({ ...inputs, seed: 8 }).expectedPnl).to.not.equal(first.expectedPnl);
+
+    const total = first.histogram.reduce((sum, bucket) => sum + bucket.probability, 0);
+    expect(total).to.be.closeTo(1, 1e-9);
+  });
+
+  it("should not report a return for an empty pool", async () => {
+    expect(simulatePoolRisk({ options: [], spot, now, volatility, liquidity: 0n }).expectedReturn).to.equal(undefined);
+  });
+});
@@ -0,0 +1,82 @@
+import { expect } from "chai";
+import { parseEther } from "ethers";
+import { getCurrentPnl, PayoffPosition } from "../../nextjs/utils/payoff/payoff";
+import { getPositionGreeks, sumGreeks, toEthGreeks, toUsdGreeks } from "../../nextjs/utils/portfolio/greeks";
+
+/**
+ * The portfolio risk view's Greeks (packages/nextjs/utils/portfolio/greeks.ts)
+ */
+
+describe("Portfolio Greeks", function () {
+  const now = 1_800_000_000n;
+  const spot = parseEther("3000");
+  const volatility = 0.8;
+
+  const call: PayoffPosition = {
+    kind: "option",
+    market: "PhysicallySettledOptions",
+    type: "call",
+    strike: parseEther("3100"),
+    amount: parseEther("2.5"),
+    expiry: now + 14n * 86400n,
+    premium: parseEther("232.5"),
+  };
+  const put: PayoffPosition = { ...call, market: "Options", type: "put", amount: parseEther("1.5") };
+  const short: PayoffPosition = {
+    kind: "futures",
+    side: "short",
+    margin: parseEther("999"),
+    leverage: 3n,
+    entryPrice: parseEther("2900"),
+    maintenanceMarginRatio: 10n,
+  };
+
+  // Central differences of the current P&L, which prices the whole position
+  const pnlAt = (position: PayoffPosition, price: bigint, time = now) =>
+    getCurrentPnl(position, price, time, volatility);
+
+  it("should match finite differences of the option value in price and time", async () => {
+    for (const position of [call, put]) {
+      const greeks = getPositionGreeks(position, spot, now, volatility);
+      const [down, up] = [pnlAt(position, spot - parseEther("1")), pnlAt(position, spot + parseEther("1"))];
+      expect(greeks.delta).to.be.closeTo((up - down) / 2, 1e-4);
+      expect(greeks.gamma).to.be.closeTo(up + down - 2 * pnlAt(position, spot), 1e-5);
+      // Per day, from an hour either side
+      const theta = (pnlAt(position, spot, now + 3600n) - pnlAt(position, spot, now - 3600n)) * 12;
+      expect(greeks.theta).to.be.closeTo(theta, 1e-3);
+      expect(greeks.vega).to.be.greaterThan(0);
+    }
+  });
+
+  it("should count whole units only for Options", async () => {
+    const greeks = getPositionGreeks(put, spot, now, volatility);
+    const oneUnit = getPositionGreeks({ ...put, amount: parseEther("1") }, spot, now, volatility);
+    expect(greeks.delta).to.equal(oneUnit.delta);
+  });
+
+  it("should give futures a linear exposure and no other Greeks", async () => {
+    const greeks = getPositionGreeks(short, spot, now, volatility);
+    expect(greeks.delta).to.be.closeTo((-999 * 3) / 2900, 1e-12);
+    expect(greeks).to.include({ gamma: 0, vega: 0, theta: 0 });
+    expect(greeks.value).to.be.closeTo((-(3000 - 2900) * 999 * 3) / 2900, 1e-9);
+  });
+
+  it("should leave only intrinsic value after expiry", async () => {
+    const greeks = getPositionGreeks(call, parseEther("3300"), call.expiry, volatility);
+    expect(greeks).to.deep.equal({ value: 500, delta: 0, gamma: 0, vega: 0, theta: 0 });
+  });
+
+  it("should sum positions and convert between ETH and USD terms", async () => {
+    const positions = [call, put, short].map(position => getPositionGreeks(position, spot, now, volatility));
+    const net = sumGreeks(positions);
+    expect(net.delta).to.be.closeTo(
+      positions.reduce((total, greeks) => total + greeks.delta, 0),
+      1e-12,
+    );
+
+    const usd = toUsdGreeks(net, 3000);
+    expect(usd.delta).to.be.closeTo(net.delta * 3000, 1e-9);
+    expect(usd.gamma).to.be.closeTo((net.gamma * 3000 * 3000) / 100, 1e-9);
+    expect(toEthGreeks(net, 3000).theta).to.be.closeTo(net.theta / 3000, 1e-12);
+  });
+});
@@ -0,0 +1,84 @@
+import { expect } from "chai";
+import { parseEther } from "ethers";
+import { OptionPayoffPosition, PayoffPosition } from "../../nextjs/utils/payoff/payoff";
+import {
+  DEFAULT_PRICE_SHOCKS,
+  DEFAULT_TIME_OFFSETS,
+  getShockedPrice,
+  runScenario,
+  runScenarioGrid,
+} from "../../nextjs/utils/scenarios/scenarios";
+
+/**
+ * The scenario engine behind the heatmap (packages/nextjs/utils/scenarios/scenarios.ts)
+ */
+
+describe("Scenario engine", function () {
+  const now = 1_800_000_000n;
+  const spot = parseEther("3000");
+
+  const call: OptionPayoffPosition = {
+    kind: "option",
+    market: "Options",
+    type: "call",
+    strike: parseEther("3000"),
+    amount: parseEther("2"),
+    expiry: now + 7n * 86400n,
+    premium: parseEther("120"),
+  };
+  const put: OptionPayoffPosition = {
+    ...call,
+    market: "PhysicallySettledOptions",
+    type: "put",
+    amount: parseEther("1"),
+    premium: parseEther("90"),
+  };
+  const long: PayoffPosition = {
+    kind: "futures",
+    side: "long",
+    margin: parseEther("1000"),
+    leverage: 5n,
+    entryPrice: spot,
+    maintenanceMarginRatio: 10n,
+  };
+  const inputs = { traderPositions: [call, put, long], poolOptions: [call, put], spot, now, volatility: 0.8 };
+
+  it("should span -50% to +50% over four dates by default", async () => {
+    const grid = runScenarioGrid(inputs);
+    expect(grid).to.have.length(DEFAULT_TIME_OFFSETS.length);
+    expect(grid[0].map(cell => cell.price)).to.deep.equal(DEFAULT_PRICE_SHOCKS.map(s => getShockedPrice(spot, s)));
+    expect(grid[0][0].price).to.equal(parseEther("1500"));
+    expect(grid[0][10].price).to.equal(parseEther("4500"));
+  });
+
+  it("should mirror the trader's option P&L in the pools when the trader is the only buyer", async () => {
+    const optionsOnly = { ...inputs, traderPositions: [call, put] };
+    for (const offset of DEFAULT_TIME_OFFSETS) {
+      const cell = runScenario(optionsOnly, 0.1, offset);
+      const poolTotal = cell.poolNetLiability.Options + cell.poolNetLiability.PhysicallySettledOptions;
+      expect(poolTotal).to.be.closeTo(cell.traderPnl, 1e-9);
+    }
+  });
+
+  it("should settle options at their exercise value after expiry", async () => {
+    const cell = runScenario(inputs, 0.2, 30 * 86400);
+    // The call pays (3600 - 3000) * 2, the put expires worthless
+    expect(cell.poolNetLiability.Options).to.be.closeTo(1200 - 120, 1e-9);
+    expect(cell.poolNetLiability.PhysicallySettledOptions).to.be.closeTo(-90, 1e-9);
+    expect(cell.traderOptionsValue).to.be.closeTo(1200, 1e-9);
+  });
+
+  it("should report futures PnL and liquidation regardless of the date", async () => {
+    const up = runScenario(inputs, 0.1, 0);
+    expect(up.futuresPnl).to.be.closeTo(500, 1e-9);
+    expect(up.isLiquidated).to.equal(false);
+
+    // A 5x long loses its whole margin on a 20% drop
+    const crash = runScenario(inputs, -0.2, 7 * 86400);
+    expect(crash.isLiquidated).to.equal(true);
+
+    const noFutures = runScenario({ ...inputs, traderPositions: [call] }, -0.2, 0);
+    expect(noFutures.futuresPnl).to.equal(undefined);
+    expect(noFutures.isLiquidated).to.equal(false);
+  });
+});
@@ -0,0 +1,71 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { MaxUint256, parseEther, Signer } from "ethers";
+import { quoteOption } from "../../nextjs/utils/options/quote";
+import { quoteStrategy, roundToStrike, STRATEGY_PRESETS } from "../../nextjs/utils/options/strategies";
+import { deployMocks, deployPhysicallySettledOptions, latestTimestamp } from "./helpers/fixtures";
+
+/**
+ * The strategy builder's presets and combined quotes (packages/nextjs/utils/options/strategies.ts)
+ */
+
+describe("Strategy quotes", function () {
+  const center = parseEther("3000");
+  const width = parseEther("200");
+  const amount = parseEther("1");
+
+  it("should build the preset legs around the center strike", async () => {
+    expect(STRATEGY_PRESETS.longStraddle.build(center, width, amount)).to.deep.equal([
+      { type: "call", strike: center, amount },
+      { type: "put", strike: center, amount },
+    ]);
+    expect(STRATEGY_PRESETS.longStrangle.build(center, width, amount).map(leg => leg.strike)).to.deep.equal([
+      parseEther("3200"),
+      parseEther("2800"),
+    ]);
+    expect(STRATEGY_PRESETS.putLadder.build(center, width, amount).map(leg => leg.strike)).to.deep.equal([
+      parseEther("3000"),
+      parseEther("2800"),
+      parseEther("2600"),
+    ]);
+  });
+
+  it("should round the spot to the nearest strike", async () => {
+    expect(roundToStrike(parseEther("3024.99"), parseEther("50"))).to.equal(parseEther("3000"));
+    expect(roundToStrike(parseEther("3025"), parseEther("50"))).to.equal(parseEther("3050"));
+  });
+
+  it("should sum premium and collateral of every leg", async () => {
+    const legs = STRATEGY_PRESETS.callLadder.build(center, width, amount);
+    const quote = quoteStrategy("PhysicallySettledOptions", legs);
+    const premiums = legs.map(leg => quoteOption("PhysicallySettledOptions", leg).premium);
+
+    expect(quote.premium).to.equal(premiums.reduce((total, premium) => total + premium, 0n));
+    expect(quote.collateral).to.deep.equal({ stable: 0n, eth: parseEther("3") });
+    expect(quote.hasLiquidity).to.equal(undefined);
+  });
+
+  it("should predict the first leg the pool can't collateralize", async () => {
+    const [lp, buyer]: Signer[] = await ethers.getSigners();
+
+    const mocks = await deployMocks();
+    const { stable } = mocks;
+    const pso = await deployPhysicallySettledOptions(mocks);
+
+    await stable.mint(await buyer.getAddress(), parseEther("10000"));
+    await stable.connect(buyer).approve(await pso.getAddress(), MaxUint256);
+    // Enough ETH for two of the three calls
+    await pso.connect(lp).provideEthCollateral({ value: parseEther("2") });
+
+    const legs = STRATEGY_PRESETS.callLadder.build(center, width, amount);
+    const quote = quoteStrategy("PhysicallySettledOptions", legs, { stable: 0n, eth: parseEther("2") });
+    expect(quote.hasLiquidity).to.equal(false);
+    expect(quote.firstUnfundedLeg).to.equal(2);
+
+    const expiry = (await latestTimestamp()) + 86400n;
+    const buy = (i: number) => pso.connect(buyer).buyOption(0, legs[i].strike, expiry, legs[i].amount);
+    await buy(0);
+    await buy(1);
+    await expect(buy(2)).to.be.revertedWith("Not enough free ETH collateral");
+  });
+});
@@ -0,0 +1,37 @@
+import { ethers } from "hardhat";
+import { parseUnits } from "ethers";
+import { MockPriceFeed, MockStableCoin } from "../../typechain-types";
+
+/**
+ * Shared deployments for the tests that check the frontend math against the contracts
+ */
+
+export type Mocks = { stable: MockStableCoin; priceFeed: MockPriceFeed };
+
+export const latestTimestamp = async () => BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+
+/**
+ * Deploys a stablecoin with `stableDecimals` decimals and an ETH/USD feed answering $3000
+ */
+export async function deployMocks(stableDecimals = 18): Promise<Mocks> {
+  const StableCoin = await ethers.getContractFactory("MockStableCoin");
+  const stable = await StableCoin.deploy("Mock USD", "mUSD", stableDecimals);
+  const PriceFeed = await ethers.getContractFactory("MockPriceFeed");
+  const priceFeed = await PriceFeed.deploy(parseUnits("3000", 8));
+  return { stable, priceFeed };
+}
+
+export async function deployOptions({ stable, priceFeed }: Mocks) {
+  const Options = await ethers.getContractFactory("Options");
+  return Options.deploy(await stable.getAddress(), await priceFeed.getAddress());
+}
+
+export async function deployPhysicallySettledOptions({ stable, priceFeed }: Mocks) {
+  const PhysicallySettledOptions = await ethers.getContractFactory("PhysicallySettledOptions");
+  return PhysicallySettledOptions.deploy(await stable.getAddress(), await priceFeed.getAddress());
+}
+
+export async function deployFutures({ stable, priceFeed }: Mocks) {
+  const Futures = await ethers.getContractFactory("Futures");
+  return Futures.deploy(await stable.getAddress(), await priceFeed.getAddress());
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { Dispatch, SetStateAction } from "react";
+import { NatspecTooltip } from "./NatspecTooltip";
 import { Tuple } from "./Tuple";
 import { TupleArray } from "./TupleArray";
 import { AbiParameter } from "abitype";
@@ -19,12 +20,13 @@ type ContractInputProps = {
   form: Record<string, any> | undefined;
   stateObjectKey: string;
   paramType: AbiParameter;
+  paramDoc?: string;
 };
 
 /**
  * Generic Input component to handle input's based on their function param type
  */
-export const ContractInput = ({ setForm, form, stateObjectKey, paramType }: ContractInputProps) => {
+export const ContractInput = ({ setForm, form, stateObjectKey, paramType, paramDoc }: ContractInputProps) => {
   const inputProps = {
     name: stateObjectKey,
     value: form?.[stateObjectKey],
@@ -77,6 +79,7 @@ export const ContractInput = ({ setForm, form, stateObjectKey, paramType }: Cont
       <div className="flex items-center ml-2">
         {paramType.name && <span className="text-xs font-medium mr-2 leading-none">{paramType.name}</span>}
         <span className="block text-xs font-extralight leading-none">{paramType.type}</span>
+        <NatspecTooltip details={paramDoc} />
       </div>
       {renderInput()}
     </div>
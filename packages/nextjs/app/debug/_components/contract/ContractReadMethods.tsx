@@ -1,5 +1,5 @@
 import { Abi, AbiFunction } from "abitype";
-import { ReadOnlyFunctionForm } from "~~/app/debug/_components/contract";
+import { ReadOnlyFunctionForm, getFunctionDocs } from "~~/app/debug/_components/contract";
 import { Contract, ContractName, GenericContract, InheritedFunctions } from "~~/utils/scaffold-eth/contract";
 
 export const ContractReadMethods = ({ deployedContractData }: { deployedContractData: Contract<ContractName> }) => {
@@ -36,6 +36,7 @@ export const ContractReadMethods = ({ deployedContractData }: { deployedContract
           abiFunction={fn}
           key={fn.name}
           inheritedFrom={inheritedFrom}
+          docs={getFunctionDocs(deployedContractData as GenericContract, fn)}
         />
       ))}
     </>
@@ -8,7 +8,7 @@ import { ContractWriteMethods } from "./ContractWriteMethods";
 import { Address, Balance } from "~~/components/scaffold-eth";
 import { useDeployedContractInfo, useNetworkColor } from "~~/hooks/scaffold-eth";
 import { useTargetNetwork } from "~~/hooks/scaffold-eth/useTargetNetwork";
-import { ContractName } from "~~/utils/scaffold-eth/contract";
+import { ContractName, GenericContract } from "~~/utils/scaffold-eth/contract";
 
 type ContractUIProps = {
   contractName: ContractName;
@@ -40,6 +40,8 @@ export const ContractUI = ({ contractName, className = "" }: ContractUIProps) =>
     );
   }
 
+  const deployment = deployedContractData as GenericContract;
+
   return (
     <div className={`grid grid-cols-1 lg:grid-cols-6 px-6 lg:px-10 lg:gap-12 w-full max-w-7xl my-0 ${className}`}>
       <div className="col-span-5 grid grid-cols-1 lg:grid-cols-3 gap-8 lg:gap-10">
@@ -61,6 +63,23 @@ export const ContractUI = ({ contractName, className = "" }: ContractUIProps) =>
                 <span style={{ color: networkColor }}>{targetNetwork.name}</span>
               </p>
             )}
+            {deployment.deployedOnBlock !== undefined && (
+              <p className="my-0 text-sm">
+                <span className="font-bold">Deployed at block</span>: {deployment.deployedOnBlock}
+              </p>
+            )}
+            {deployment.deployer && (
+              <div className="flex gap-1 items-center text-sm">
+                <span className="font-bold">Deployer:</span>
+                <Address address={deployment.deployer} size="sm" />
+              </div>
+            )}
+            {deployment.constructorArgs && deployment.constructorArgs.length > 0 && (
+              <p className="my-0 text-sm break-all">
+                <span className="font-bold">Constructor args</span>:{" "}
+                {deployment.constructorArgs.map(arg => String(arg)).join(", ")}
+              </p>
+            )}
           </div>
           <div className="bg-base-300 rounded-3xl px-6 lg:px-8 py-4 shadow-lg shadow-base-300">
             <ContractVariables
@@ -91,6 +110,7 @@ export const ContractUI = ({ contractName, className = "" }: ContractUIProps) =>
               </div>
               <div className="p-5 divide-y divide-base-300">
                 <ContractWriteMethods
+                  contractName={contractName}
                   deployedContractData={deployedContractData}
                   onChange={triggerRefreshDisplayVariables}
                 />
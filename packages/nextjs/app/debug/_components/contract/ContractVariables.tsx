@@ -1,4 +1,5 @@
 import { DisplayVariable } from "./DisplayVariable";
+import { getFunctionDocs } from "./utilsContract";
 import { Abi, AbiFunction } from "abitype";
 import { Contract, ContractName, GenericContract, InheritedFunctions } from "~~/utils/scaffold-eth/contract";
 
@@ -43,6 +44,7 @@ export const ContractVariables = ({
           key={fn.name}
           refreshDisplayVariables={refreshDisplayVariables}
           inheritedFrom={inheritedFrom}
+          docs={getFunctionDocs(deployedContractData as GenericContract, fn)}
         />
       ))}
     </>
@@ -1,12 +1,14 @@
 import { Abi, AbiFunction } from "abitype";
-import { WriteOnlyFunctionForm } from "~~/app/debug/_components/contract";
+import { WriteOnlyFunctionForm, getFunctionDocs } from "~~/app/debug/_components/contract";
 import { Contract, ContractName, GenericContract, InheritedFunctions } from "~~/utils/scaffold-eth/contract";
 
 export const ContractWriteMethods = ({
   onChange,
+  contractName,
   deployedContractData,
 }: {
   onChange: () => void;
+  contractName: ContractName;
   deployedContractData: Contract<ContractName>;
 }) => {
   if (!deployedContractData) {
@@ -41,7 +43,9 @@ export const ContractWriteMethods = ({
           abiFunction={fn}
           onChange={onChange}
           contractAddress={deployedContractData.address}
+          contractName={contractName}
           inheritedFrom={inheritedFrom}
+          docs={getFunctionDocs(deployedContractData as GenericContract, fn)}
         />
       ))}
     </>
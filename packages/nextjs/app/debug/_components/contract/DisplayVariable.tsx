@@ -2,6 +2,8 @@
 
 import { useEffect } from "react";
 import { InheritanceTooltip } from "./InheritanceTooltip";
+import { NatspecTooltip } from "./NatspecTooltip";
+import { FunctionDocs } from "./utilsContract";
 import { displayTxResult } from "./utilsDisplay";
 import { Abi, AbiFunction } from "abitype";
 import { Address } from "viem";
@@ -16,6 +18,7 @@ type DisplayVariableProps = {
   abiFunction: AbiFunction;
   refreshDisplayVariables: boolean;
   inheritedFrom?: string;
+  docs?: FunctionDocs;
   abi: Abi;
 };
 
@@ -25,6 +28,7 @@ export const DisplayVariable = ({
   refreshDisplayVariables,
   abi,
   inheritedFrom,
+  docs,
 }: DisplayVariableProps) => {
   const { targetNetwork } = useTargetNetwork();
 
@@ -68,6 +72,7 @@ export const DisplayVariable = ({
           )}
         </button>
         <InheritanceTooltip inheritedFrom={inheritedFrom} />
+        <NatspecTooltip notice={docs?.notice} details={docs?.details} />
       </div>
       <div className="text-base-content/80 flex flex-col items-start">
         <div>
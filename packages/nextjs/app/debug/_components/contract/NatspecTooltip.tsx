@@ -0,0 +1,14 @@
+import { QuestionMarkCircleIcon } from "@heroicons/react/20/solid";
+
+export const NatspecTooltip = ({ notice, details }: { notice?: string; details?: string }) => {
+  const tip = [notice, details].filter(Boolean).join(" ");
+  return (
+    <>
+      {tip && (
+        <span className="tooltip tooltip-top tooltip-info px-2 md:break-normal before:max-w-xs" data-tip={tip}>
+          <QuestionMarkCircleIcon className="h-4 w-4" aria-hidden="true" />
+        </span>
+      )}
+    </>
+  );
+};
@@ -2,11 +2,13 @@
 
 import { useEffect, useState } from "react";
 import { InheritanceTooltip } from "./InheritanceTooltip";
+import { NatspecTooltip } from "./NatspecTooltip";
 import { Abi, AbiFunction } from "abitype";
 import { Address } from "viem";
 import { useReadContract } from "wagmi";
 import {
   ContractInput,
+  FunctionDocs,
   displayTxResult,
   getFunctionInputKey,
   getInitialFormState,
@@ -20,6 +22,7 @@ type ReadOnlyFunctionFormProps = {
   contractAddress: Address;
   abiFunction: AbiFunction;
   inheritedFrom?: string;
+  docs?: FunctionDocs;
   abi: Abi;
 };
 
@@ -27,6 +30,7 @@ export const ReadOnlyFunctionForm = ({
   contractAddress,
   abiFunction,
   inheritedFrom,
+  docs,
   abi,
 }: ReadOnlyFunctionFormProps) => {
   const [form, setForm] = useState<Record<string, any>>(() => getInitialFormState(abiFunction));
@@ -65,6 +69,7 @@ export const ReadOnlyFunctionForm = ({
         form={form}
         stateObjectKey={key}
         paramType={input}
+        paramDoc={input.name ? docs?.params[input.name] : undefined}
       />
     );
   });
@@ -74,6 +79,7 @@ export const ReadOnlyFunctionForm = ({
       <p className="font-medium my-0 break-words">
         {abiFunction.name}
         <InheritanceTooltip inheritedFrom={inheritedFrom} />
+        <NatspecTooltip notice={docs?.notice} details={docs?.details} />
       </p>
       {inputElements}
       <div className="flex flex-col md:flex-row justify-between gap-2 flex-wrap">
@@ -2,11 +2,14 @@
 
 import { useEffect, useState } from "react";
 import { InheritanceTooltip } from "./InheritanceTooltip";
+import { NatspecTooltip } from "./NatspecTooltip";
+import { getFunctionWidget } from "./functionWidgets";
 import { Abi, AbiFunction } from "abitype";
 import { Address, TransactionReceipt } from "viem";
 import { useAccount, useWaitForTransactionReceipt, useWriteContract } from "wagmi";
 import {
   ContractInput,
+  FunctionDocs,
   TxReceipt,
   getFunctionInputKey,
   getInitialFormState,
@@ -22,7 +25,9 @@ type WriteOnlyFunctionFormProps = {
   abiFunction: AbiFunction;
   onChange: () => void;
   contractAddress: Address;
+  contractName?: string;
   inheritedFrom?: string;
+  docs?: FunctionDocs;
 };
 
 export const WriteOnlyFunctionForm = ({
@@ -30,7 +35,9 @@ export const WriteOnlyFunctionForm = ({
   abiFunction,
   onChange,
   contractAddress,
+  contractName,
   inheritedFrom,
+  docs,
 }: WriteOnlyFunctionFormProps) => {
   const [form, setForm] = useState<Record<string, any>>(() => getInitialFormState(abiFunction));
   const [txValue, setTxValue] = useState<string>("");
@@ -82,10 +89,12 @@ export const WriteOnlyFunctionForm = ({
         form={form}
         stateObjectKey={key}
         paramType={input}
+        paramDoc={input.name ? docs?.params[input.name] : undefined}
       />
     );
   });
-  const zeroInputs = inputs.length === 0 && abiFunction.stateMutability !== "payable";
+  const functionWidget = getFunctionWidget(contractName, abiFunction.name);
+  const zeroInputs = inputs.length === 0 && abiFunction.stateMutability !== "payable" && !functionWidget;
 
   return (
     <div className="py-5 space-y-3 first:pt-0 last:pb-1">
@@ -93,8 +102,10 @@ export const WriteOnlyFunctionForm = ({
         <p className="font-medium my-0 break-words">
           {abiFunction.name}
           <InheritanceTooltip inheritedFrom={inheritedFrom} />
+          <NatspecTooltip notice={docs?.notice} details={docs?.details} />
         </p>
         {inputs}
+        {functionWidget?.(getParsedContractFunctionArgs(form))}
         {abiFunction.stateMutability === "payable" ? (
           <div className="flex flex-col gap-1.5 w-full">
             <div className="flex items-center ml-2">
@@ -0,0 +1,62 @@
+import { ReactNode } from "react";
+import { MarginCalculator } from "~~/components/futures/MarginCalculator";
+import { PositionRisk } from "~~/components/futures/PositionRisk";
+import { ExerciseWizard } from "~~/components/options/ExerciseWizard";
+import { OptionQuoteChecks } from "~~/components/options/OptionQuoteChecks";
+import { TheoreticalValue } from "~~/components/options/TheoreticalValue";
+import { OptionMarketName } from "~~/utils/options";
+
+/**
+ * Renders extra information under a write function's inputs from its parsed arguments
+ */
+type FunctionWidget = (args: any[]) => ReactNode;
+
+// Integer inputs parse to a number or a bigint depending on their value, see deepParseValues
+const toBigInt = (arg: unknown) =>
+  typeof arg === "bigint" ? arg : typeof arg === "number" && Number.isSafeInteger(arg) ? BigInt(arg) : undefined;
+
+const optionBuyWidget =
+  (contractName: OptionMarketName): FunctionWidget =>
+  args => {
+    const [optType, strike, expiry, amount] = args.map(toBigInt);
+    return (
+      <>
+        <TheoreticalValue
+          contractName={contractName}
+          optType={optType === undefined ? undefined : Number(optType)}
+          strike={strike}
+          expiry={expiry}
+          amount={amount}
+        />
+        <OptionQuoteChecks
+          contractName={contractName}
+          type={optType === 0n ? "call" : optType === 1n ? "put" : undefined}
+          strike={strike}
+          amount={amount}
+        />
+      </>
+    );
+  };
+
+const functionWidgets: Record<string, Record<string, FunctionWidget>> = {
+  Options: {
+    buyOption: optionBuyWidget("Options"),
+  },
+  PhysicallySettledOptions: {
+    buyOption: optionBuyWidget("PhysicallySettledOptions"),
+    exerciseOption: ([optionId]) => <ExerciseWizard optionId={toBigInt(optionId)} />,
+  },
+  Futures: {
+    openPosition: ([deposit, leverage, isLong]) => (
+      <MarginCalculator
+        deposit={toBigInt(deposit)}
+        leverage={toBigInt(leverage)}
+        isLong={typeof isLong === "boolean" ? isLong : undefined}
+      />
+    ),
+    closePosition: () => <PositionRisk />,
+  },
+};
+
+export const getFunctionWidget = (contractName: string | undefined, functionName: string) =>
+  contractName ? functionWidgets[contractName]?.[functionName] : undefined;
@@ -1,5 +1,6 @@
 import { AbiFunction, AbiParameter } from "abitype";
-import { AbiParameterTuple } from "~~/utils/scaffold-eth/contract";
+import { toFunctionSignature } from "viem";
+import { AbiParameterTuple, GenericContract } from "~~/utils/scaffold-eth/contract";
 
 /**
  * Generates a key based on function metadata
@@ -156,7 +157,24 @@ const transformAbiFunction = (abiFunction: AbiFunction): AbiFunction => {
   };
 };
 
+export type FunctionDocs = {
+  notice?: string;
+  details?: string;
+  params: { readonly [param: string]: string };
+};
+
+/**
+ * Looks up the NatSpec of a function, overloads are told apart by their signature
+ */
+const getFunctionDocs = (contract: GenericContract, abiFunction: AbiFunction): FunctionDocs => {
+  const signature = toFunctionSignature(abiFunction);
+  const userMethod = contract.userdoc?.methods[signature];
+  const devMethod = contract.devdoc?.methods[signature];
+  return { notice: userMethod?.notice, details: devMethod?.details, params: devMethod?.params ?? {} };
+};
+
 export {
+  getFunctionDocs,
   getFunctionInputKey,
   getInitialFormState,
   getParsedContractFunctionArgs,
@@ -0,0 +1,157 @@
+"use client";
+
+import { useState } from "react";
+import { OpenPosition } from "./OpenPosition";
+import { formatEther, formatUnits, parseUnits } from "viem";
+import { useAccount } from "wagmi";
+import { XCircleIcon } from "@heroicons/react/24/outline";
+import { MarginCalculator } from "~~/components/futures/MarginCalculator";
+import { useFuturesParams } from "~~/hooks/futures/useFuturesParams";
+import { useFuturesTrading } from "~~/hooks/futures/useFuturesTrading";
+import { FuturesOrderIssue, FuturesSide, getFuturesOrderIssue } from "~~/utils/futures";
+
+const parseMargin = (value: string, decimals: number) => {
+  try {
+    const parsed = parseUnits(value, decimals);
+    return parsed > 0n ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Order ticket for a Futures position, or the open position when the trader has one
+ */
+export const FuturesTerminal = () => {
+  const [side, setSide] = useState<FuturesSide>("long");
+  const [marginInput, setMarginInput] = useState("100");
+  const [leverage, setLeverage] = useState(2n);
+
+  const { address } = useAccount();
+  const { params, maxLeverage, stableDecimals } = useFuturesParams();
+  const { position, pnl, isLiquidatable, price, balance, allowance, availableLiquidity, symbol, open, close, step } =
+    useFuturesTrading();
+  const unit = symbol ?? "stable";
+
+  if (!params || maxLeverage === undefined || stableDecimals === undefined || !price) {
+    return <span className="loading loading-spinner loading-md"></span>;
+  }
+
+  const formatStable = (value: bigint) =>
+    Number(formatUnits(value, stableDecimals)).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+  const deposit = parseMargin(marginInput, stableDecimals);
+  const order = deposit ? { side, deposit, leverage } : undefined;
+  // The one-position rule applies before the ticket is filled in too
+  let issue: FuturesOrderIssue | undefined = position ? "positionOpen" : undefined;
+  if (order && balance !== undefined && availableLiquidity !== undefined) {
+    issue = getFuturesOrderIssue(order, { hasOpenPosition: !!position, maxLeverage, availableLiquidity, balance });
+  }
+  const issueMessages: Record<FuturesOrderIssue, string> = {
+    positionOpen:
+      "You already have an open position. Futures keeps a single position per address, close it before opening another in either direction.",
+    invalidLeverage: `Leverage must be between 1x and ${maxLeverage.toString()}x.`,
+    noMargin: "Enter a margin above zero.",
+    noLiquidity: `The contract only has ${formatStable(availableLiquidity ?? 0n)} ${unit} of liquidity to back positions.`,
+    insufficientBalance: `Not enough ${unit} for this margin.`,
+  };
+
+  const needsApproval = deposit !== undefined && allowance !== undefined && allowance < deposit;
+  const canOpen = !!address && !!order && !issue && !step;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 w-full max-w-5xl">
+      <div className="flex flex-col gap-4 bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 p-6">
+        <div className="flex items-center justify-between gap-2">
+          <div className="join">
+            {(["long", "short"] as FuturesSide[]).map(option => (
+              <button
+                key={option}
+                className={`btn btn-sm join-item capitalize ${
+                  side === option ? (option === "long" ? "btn-success" : "btn-error") : ""
+                }`}
+                onClick={() => setSide(option)}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <span className="text-sm">ETH ${Number(formatEther(price)).toFixed(2)}</span>
+        </div>
+
+        <label className="form-control">
+          <div className="label py-1">
+            <span className="label-text text-xs">Margin ({unit})</span>
+            {balance !== undefined && (
+              <span className="label-text-alt text-xs opacity-70">Balance {formatStable(balance)}</span>
+            )}
+          </div>
+          <input
+            className={`input input-bordered input-sm ${deposit ? "" : "input-error"}`}
+            value={marginInput}
+            onChange={e => setMarginInput(e.target.value)}
+          />
+        </label>
+
+        <label className="form-control">
+          <div className="label py-1">
+            <span className="label-text text-xs">Leverage</span>
+            <span className="label-text-alt font-medium">{leverage.toString()}x</span>
+          </div>
+          <input
+            type="range"
+            className="range range-sm range-primary"
+            min={1}
+            max={Number(maxLeverage)}
+            step={1}
+            value={Number(leverage)}
+            onChange={e => setLeverage(BigInt(e.target.value))}
+          />
+          <div className="flex justify-between text-xs opacity-70 px-1">
+            <span>1x</span>
+            <span>{maxLeverage.toString()}x</span>
+          </div>
+        </label>
+
+        <MarginCalculator deposit={deposit} leverage={leverage} isLong={side === "long"} />
+
+        {issue && (
+          <div className="alert alert-error py-2 text-xs">
+            <XCircleIcon className="h-5 w-5 shrink-0" />
+            <span>{issueMessages[issue]}</span>
+          </div>
+        )}
+
+        <button className="btn btn-primary btn-sm" disabled={!canOpen} onClick={() => order && open(order)}>
+          {(step === "approving" || step === "opening") && <span className="loading loading-spinner loading-xs"></span>}
+          {!address
+            ? "Connect a wallet"
+            : step === "approving"
+              ? `Approving ${unit}...`
+              : step === "opening"
+                ? "Opening..."
+                : `${needsApproval ? `Approve ${unit} & open` : "Open"} ${leverage.toString()}x ${side}`}
+        </button>
+      </div>
+
+      {position ? (
+        <OpenPosition
+          position={position}
+          price={price}
+          maintenanceMarginRatio={params.maintenanceMarginRatio}
+          stableDecimals={stableDecimals}
+          unit={unit}
+          pnl={pnl}
+          isLiquidatable={isLiquidatable}
+          onClose={close}
+          isClosing={step === "closing"}
+        />
+      ) : (
+        <div className="bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 p-6 text-sm opacity-70">
+          {address ? "No open position." : "Connect a wallet to trade."} Each address can hold one position at a time,
+          long or short, which is closed in full.
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import { formatEther, formatUnits } from "viem";
+import { PositionRisk } from "~~/components/futures/PositionRisk";
+import { FuturesPosition, getClosePayout, getLiquidationPrice } from "~~/utils/futures";
+
+type OpenPositionProps = {
+  position: FuturesPosition;
+  price: bigint;
+  maintenanceMarginRatio: bigint;
+  stableDecimals: number;
+  unit: string;
+  // `getPositionValue` and `checkLiquidation` as read from the contract
+  pnl?: bigint;
+  isLiquidatable?: boolean;
+  onClose: () => void;
+  isClosing: boolean;
+};
+
+/**
+ * The trader's open position: on-chain PnL and liquidation check, its risk breakdown and a close button
+ */
+export const OpenPosition = ({
+  position,
+  price,
+  maintenanceMarginRatio,
+  stableDecimals,
+  unit,
+  pnl,
+  isLiquidatable,
+  onClose,
+  isClosing,
+}: OpenPositionProps) => {
+  const formatStable = (value: bigint) =>
+    Number(formatUnits(value, stableDecimals)).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+  const liquidationPrice = getLiquidationPrice(position, maintenanceMarginRatio);
+  // How far the price can move against the position before `checkLiquidation` flips
+  const distance = Math.abs(Number(formatEther(liquidationPrice - price)) / Number(formatEther(price)));
+  const payout = getClosePayout(position, price);
+
+  return (
+    <div className="flex flex-col gap-4 bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-xl font-bold m-0">Open position</h2>
+        {isLiquidatable !== undefined && (
+          <span className={`badge badge-sm ${isLiquidatable ? "badge-error" : "badge-success"}`}>
+            {isLiquidatable ? "Liquidatable" : "Above maintenance margin"}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="bg-base-200 rounded-xl px-4 py-3">
+          <div className="text-xs opacity-70">Unrealized PnL</div>
+          <div className={`text-lg font-bold ${pnl === undefined ? "" : pnl < 0n ? "text-error" : "text-success"}`}>
+            {pnl === undefined ? "-" : `${formatStable(pnl)} ${unit}`}
+          </div>
+        </div>
+        <div className="bg-base-200 rounded-xl px-4 py-3">
+          <div className="text-xs opacity-70">Distance to liquidation</div>
+          <div className={`text-lg font-bold ${isLiquidatable ? "text-error" : ""}`}>
+            {isLiquidatable ? "0.00%" : `${(distance * 100).toFixed(2)}%`}
+          </div>
+        </div>
+      </div>
+
+      <PositionRisk />
+
+      {isLiquidatable && (
+        <p className="text-xs text-error m-0">
+          Anyone can liquidate this position now and it would pay out nothing, closing it yourself returns{" "}
+          {formatStable(payout)} {unit}.
+        </p>
+      )}
+      <button className="btn btn-secondary btn-sm" disabled={isClosing} onClick={onClose}>
+        {isClosing && <span className="loading loading-spinner loading-xs"></span>}
+        {isClosing ? "Closing..." : `Close for ${formatStable(payout)} ${unit}`}
+      </button>
+    </div>
+  );
+};
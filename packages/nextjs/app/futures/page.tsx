@@ -0,0 +1,22 @@
+import { FuturesTerminal } from "./_components/FuturesTerminal";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Futures",
+  description: "Open and close leveraged ETH futures positions",
+});
+
+const Futures: NextPage = () => {
+  return (
+    <div className="flex flex-col items-center py-8 px-4 lg:px-10">
+      <h1 className="text-4xl font-bold mb-2">Futures</h1>
+      <p className="text-neutral mt-0 mb-6 text-center">
+        Go long or short ETH with up to the contract&apos;s maximum leverage, one position per address.
+      </p>
+      <FuturesTerminal />
+    </div>
+  );
+};
+
+export default Futures;
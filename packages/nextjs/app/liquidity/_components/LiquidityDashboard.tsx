@@ -0,0 +1,230 @@
+"use client";
+
+import { useState } from "react";
+import { LiquidityHistory } from "./LiquidityHistory";
+import { formatEther, parseEther } from "viem";
+import { useAccount } from "wagmi";
+import { XCircleIcon } from "@heroicons/react/24/outline";
+import { useLiquidityProvider } from "~~/hooks/options/useLiquidityProvider";
+import {
+  getDepositForShares,
+  getShareValue,
+  getSharesForDeposit,
+  getSharesForWithdrawal,
+  getUnlockedLiquidity,
+  getUtilization,
+  getWithdrawableShares,
+} from "~~/utils/liquidity";
+
+type Action = "deposit" | "withdraw";
+type AmountUnit = "stable" | "shares";
+
+const parseAmount = (value: string) => {
+  try {
+    const parsed = parseEther(value);
+    return parsed > 0n ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const formatAmount = (value: bigint) =>
+  Number(formatEther(value)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const Stat = ({ label, value, hint }: { label: string; value: string; hint?: string }) => (
+  <div className="bg-base-200 rounded-xl px-4 py-3">
+    <div className="text-xs opacity-70">{label}</div>
+    <div className="text-lg font-bold">{value}</div>
+    {hint && <div className="text-xs opacity-70">{hint}</div>}
+  </div>
+);
+
+/**
+ * The connected account's Options pool position with forms to deposit and withdraw, in stablecoins or shares
+ */
+export const LiquidityDashboard = () => {
+  const [action, setAction] = useState<Action>("deposit");
+  const [unit, setUnit] = useState<AmountUnit>("stable");
+  const [amountInput, setAmountInput] = useState("");
+
+  const { address } = useAccount();
+  const { shares, pool, balance, allowance, symbol, events, isLoadingEvents, deposit, withdraw, step } =
+    useLiquidityProvider();
+  const stableUnit = symbol ?? "stable";
+
+  if (!pool) return <span className="loading loading-spinner loading-md"></span>;
+
+  const heldShares = shares ?? 0n;
+  const positionValue = getShareValue(heldShares, pool);
+  const poolShare = pool.totalLpShares === 0n ? 0 : Number((heldShares * 10n ** 8n) / pool.totalLpShares) / 1e6;
+  const withdrawableShares = getWithdrawableShares(heldShares, pool);
+  const withdrawableValue = getShareValue(withdrawableShares, pool);
+
+  const amount = parseAmount(amountInput);
+  let stableAmount: bigint | undefined;
+  let shareAmount: bigint | undefined;
+  if (amount && action === "deposit") {
+    stableAmount = unit === "stable" ? amount : getDepositForShares(amount, pool);
+    shareAmount = getSharesForDeposit(stableAmount, pool);
+  } else if (amount && action === "withdraw") {
+    shareAmount = unit === "shares" ? amount : getSharesForWithdrawal(amount, pool);
+    stableAmount = getShareValue(shareAmount, pool);
+  }
+
+  let problem: string | undefined;
+  if (action === "deposit" && stableAmount !== undefined) {
+    if (shareAmount === 0n) problem = "Too small to mint a share.";
+    else if (balance !== undefined && stableAmount > balance) problem = `Not enough ${stableUnit} to deposit.`;
+  } else if (action === "withdraw" && stableAmount !== undefined && shareAmount !== undefined) {
+    if (shareAmount > heldShares) problem = "More than your shares are worth.";
+    else if (stableAmount > getUnlockedLiquidity(pool)) {
+      problem =
+        "The rest of the pool is locked as collateral for sold options, withdraw less or wait for them to expire.";
+    }
+  }
+
+  const needsApproval = action === "deposit" && stableAmount !== undefined && (allowance ?? 0n) < stableAmount;
+  const canSubmit = !!address && stableAmount !== undefined && shareAmount !== undefined && !problem && !step;
+
+  const handleSubmit = async () => {
+    if (stableAmount === undefined || shareAmount === undefined) return;
+    const isDone = action === "deposit" ? await deposit(stableAmount) : await withdraw(shareAmount);
+    if (isDone) setAmountInput("");
+  };
+
+  const selectAction = (next: Action) => {
+    setAction(next);
+    setAmountInput("");
+  };
+
+  const setMax = () => {
+    if (action === "deposit") {
+      setUnit("stable");
+      setAmountInput(formatEther(balance ?? 0n));
+    } else {
+      setUnit("shares");
+      setAmountInput(formatEther(withdrawableShares));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6 w-full">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 flex flex-col gap-4 bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 p-6">
+          <h2 className="text-xl font-bold m-0">Your position</h2>
+          {!address && <p className="text-sm opacity-70 m-0">Connect a wallet to see your position</p>}
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <Stat label="LP shares" value={formatAmount(heldShares)} hint={`${poolShare.toFixed(4)}% of the pool`} />
+            <Stat label="Value" value={`${formatAmount(positionValue)} ${stableUnit}`} />
+            <Stat
+              label="Withdrawable now"
+              value={`${formatAmount(withdrawableValue)} ${stableUnit}`}
+              hint={withdrawableShares < heldShares ? "Capped by unlocked liquidity" : undefined}
+            />
+            <Stat label="Pool liquidity" value={`${formatAmount(pool.totalLiquidity)} ${stableUnit}`} />
+            <Stat
+              label="Utilization"
+              value={`${(getUtilization(pool) * 100).toFixed(2)}%`}
+              hint={`${formatAmount(pool.lockedCollateral)} locked`}
+            />
+            <Stat label="Unlocked" value={`${formatAmount(getUnlockedLiquidity(pool))} ${stableUnit}`} />
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-4 bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 p-6">
+          <div role="tablist" className="tabs tabs-boxed">
+            {(["deposit", "withdraw"] as Action[]).map(option => (
+              <button
+                key={option}
+                role="tab"
+                className={`tab capitalize ${action === option ? "tab-active" : ""}`}
+                onClick={() => selectAction(option)}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+
+          <label className="form-control">
+            <div className="label py-1">
+              <span className="label-text text-xs">Amount</span>
+              <button className="btn btn-link btn-xs p-0 h-auto min-h-0" onClick={setMax}>
+                Max
+              </button>
+            </div>
+            <div className="join">
+              <input
+                className={`input input-bordered input-sm join-item w-full ${
+                  amountInput && !amount ? "input-error" : ""
+                }`}
+                placeholder="0.0"
+                value={amountInput}
+                onChange={e => setAmountInput(e.target.value)}
+              />
+              <select
+                className="select select-bordered select-sm join-item"
+                value={unit}
+                onChange={e => setUnit(e.target.value as AmountUnit)}
+              >
+                <option value="stable">{stableUnit}</option>
+                <option value="shares">shares</option>
+              </select>
+            </div>
+          </label>
+
+          {stableAmount !== undefined && shareAmount !== undefined && (
+            <div className="bg-base-200 rounded-xl px-4 py-2 text-sm flex flex-col gap-1">
+              <div className="flex justify-between gap-2">
+                <span>{action === "deposit" ? "You pay" : "You receive"}</span>
+                <span className="font-medium">
+                  {formatEther(stableAmount)} {stableUnit}
+                </span>
+              </div>
+              <div className="flex justify-between gap-2">
+                <span>{action === "deposit" ? "Shares minted" : "Shares burned"}</span>
+                <span className="font-medium">{formatEther(shareAmount)}</span>
+              </div>
+              {action === "deposit" && address && balance !== undefined && (
+                <div className="flex justify-between gap-2 opacity-70">
+                  <span>Your balance</span>
+                  <span>
+                    {formatEther(balance)} {stableUnit}
+                    {needsApproval && " (approval needed)"}
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+
+          {problem && (
+            <div className="alert alert-error py-2 text-xs">
+              <XCircleIcon className="h-5 w-5 shrink-0" />
+              <span>{problem}</span>
+            </div>
+          )}
+
+          <button className="btn btn-primary btn-sm" disabled={!canSubmit} onClick={handleSubmit}>
+            {step && <span className="loading loading-spinner loading-xs"></span>}
+            {!address
+              ? "Connect a wallet"
+              : step === "approving"
+                ? `Approving ${stableUnit}...`
+                : step === "depositing"
+                  ? "Depositing..."
+                  : step === "withdrawing"
+                    ? "Withdrawing..."
+                    : action === "deposit"
+                      ? needsApproval
+                        ? `Approve ${stableUnit} & deposit`
+                        : "Deposit"
+                      : "Withdraw"}
+          </button>
+        </div>
+      </div>
+
+      {address && (
+        <LiquidityHistory events={events} currentValue={positionValue} isLoading={isLoadingEvents} unit={stableUnit} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import { formatEther } from "viem";
+import { LiquidityEvent, getLiquidityHistory } from "~~/utils/liquidity";
+
+type LiquidityHistoryProps = {
+  events: LiquidityEvent[];
+  // Value of the shares still held, for the unrealized return
+  currentValue?: bigint;
+  isLoading: boolean;
+  unit: string;
+};
+
+const formatAmount = (value: bigint) =>
+  Number(formatEther(value)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatPnl = (value: bigint) => `${value >= 0n ? "+" : "-"}${formatAmount(value >= 0n ? value : -value)}`;
+
+const pnlClass = (value: bigint) => (value > 0n ? "text-success" : value < 0n ? "text-error" : "");
+
+/**
+ * The provider's deposits and withdrawals, each withdrawal realized against the average cost of its shares
+ */
+export const LiquidityHistory = ({ events, currentValue, isLoading, unit }: LiquidityHistoryProps) => {
+  const { entries, deposited, withdrawn, costBasis, realizedPnl } = getLiquidityHistory(events);
+  const unrealizedPnl = currentValue !== undefined ? currentValue - costBasis : undefined;
+
+  return (
+    <div className="flex flex-col gap-4 w-full bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-xl font-bold m-0">History</h2>
+        <div className="flex flex-wrap gap-x-4 text-sm">
+          <span>
+            Deposited {formatAmount(deposited)} · withdrawn {formatAmount(withdrawn)} {unit}
+          </span>
+          <span className={pnlClass(realizedPnl)}>Realized {formatPnl(realizedPnl)}</span>
+          {unrealizedPnl !== undefined && (
+            <span className={pnlClass(unrealizedPnl)}>Unrealized {formatPnl(unrealizedPnl)}</span>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="table table-sm">
+          <thead>
+            <tr>
+              <th>Block</th>
+              <th></th>
+              <th className="text-right">{unit}</th>
+              <th className="text-right">Shares</th>
+              <th className="text-right">Realized</th>
+            </tr>
+          </thead>
+          <tbody>
+            {isLoading && (
+              <tr>
+                <td colSpan={5} className="text-center">
+                  <span className="loading loading-spinner loading-sm"></span>
+                </td>
+              </tr>
+            )}
+            {!isLoading && entries.length === 0 && (
+              <tr>
+                <td colSpan={5} className="text-center opacity-70">
+                  No deposits yet
+                </td>
+              </tr>
+            )}
+            {[...entries].reverse().map(entry => (
+              <tr key={`${entry.blockNumber}-${entry.logIndex}`}>
+                <td>{entry.blockNumber.toString()}</td>
+                <td>
+                  <span className={`badge badge-sm ${entry.kind === "deposit" ? "badge-success" : "badge-warning"}`}>
+                    {entry.kind}
+                  </span>
+                </td>
+                <td className="text-right">{formatAmount(entry.stable)}</td>
+                <td className="text-right">{formatAmount(entry.shares)}</td>
+                <td className={`text-right ${entry.realizedPnl !== undefined ? pnlClass(entry.realizedPnl) : ""}`}>
+                  {entry.realizedPnl !== undefined ? (
+                    <>
+                      {formatPnl(entry.realizedPnl)}
+                      {entry.realizedReturn !== undefined && (
+                        <span className="text-xs opacity-70 ml-1">({(entry.realizedReturn * 100).toFixed(2)}%)</span>
+                      )}
+                    </>
+                  ) : (
+                    "-"
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs opacity-70 m-0">
+        Withdrawals are compared with the average price paid for the shares they burn.
+      </p>
+    </div>
+  );
+};
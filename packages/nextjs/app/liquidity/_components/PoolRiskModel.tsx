@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import { useBlock } from "wagmi";
+import { useMarketOptions } from "~~/hooks/options/useOwnedOptions";
+import { usePoolRisk } from "~~/hooks/options/usePoolRisk";
+import { useScaffoldReadContract, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { useDefaultVolatilityPercent } from "~~/hooks/volatility/useHistoricalVolatility";
+import { fromWad } from "~~/utils/options";
+import { OptionPayoffPosition } from "~~/utils/payoff";
+import { DEFAULT_SIMULATION_PATHS } from "~~/utils/poolRisk";
+
+const PATH_COUNTS = [1000, DEFAULT_SIMULATION_PATHS, 20000];
+
+const formatUsd = (value: number) =>
+  value.toLocaleString(undefined, { style: "currency", currency: "USD", maximumFractionDigits: 2 });
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+/**
+ * Simulated distribution of the Options pool's P&L over its active options: premiums collected minus payouts
+ */
+export const PoolRiskModel = () => {
+  // Undefined until edited, the feed's realized volatility is used until then
+  const [volatilityInput, setVolatilityInput] = useState<string>();
+  const [paths, setPaths] = useState(DEFAULT_SIMULATION_PATHS);
+
+  const { targetNetwork } = useTargetNetwork();
+  // Chain time rather than the wall clock, local chains are often fast-forwarded
+  const { data: block } = useBlock({ chainId: targetNetwork.id, watch: true });
+  const { data: spot } = useScaffoldReadContract({ contractName: "Options", functionName: "getLatestPrice" });
+  const { data: totalLiquidity } = useScaffoldReadContract({ contractName: "Options", functionName: "totalLiquidity" });
+  const { options, isLoading } = useMarketOptions("Options");
+  const defaultVolatilityPercent = useDefaultVolatilityPercent();
+  const volatilityPercent = volatilityInput ?? defaultVolatilityPercent.toString();
+
+  const isVolatilityValid = Number(volatilityPercent) > 0;
+  const volatility = (isVolatilityValid ? Number(volatilityPercent) : defaultVolatilityPercent) / 100;
+
+  const activeOptions = options
+    .filter(option => option.status === "active")
+    .map(({ market, type, strike, expiry, amount, premium }): OptionPayoffPosition => ({
+      kind: "option",
+      market,
+      type,
+      strike,
+      expiry,
+      amount,
+      premium,
+    }));
+
+  const { result, error, isRunning } = usePoolRisk(
+    spot && block && totalLiquidity !== undefined && !isLoading
+      ? { options: activeOptions, spot, now: block.timestamp, volatility, liquidity: totalLiquidity, paths }
+      : undefined,
+  );
+
+  const maxProbability = Math.max(...(result?.histogram.map(bucket => bucket.probability) ?? [0]));
+
+  return (
+    <div className="flex flex-col gap-4 w-full bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold m-0">Pool risk</h2>
+          <p className="text-sm opacity-70 m-0">
+            {activeOptions.length} active options simulated to expiry on random price paths
+          </p>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          {spot && <span>ETH ${fromWad(spot).toFixed(2)}</span>}
+          <span className="opacity-50">|</span>
+          <input
+            className={`input input-bordered input-xs w-16 text-right ${isVolatilityValid ? "" : "input-error"}`}
+            value={volatilityPercent}
+            onChange={e => setVolatilityInput(e.target.value)}
+          />
+          <span>% vol</span>
+          <select
+            className="select select-bordered select-xs"
+            value={paths}
+            onChange={e => setPaths(Number(e.target.value))}
+          >
+            {PATH_COUNTS.map(count => (
+              <option key={count} value={count}>
+                {count.toLocaleString()} paths
+              </option>
+            ))}
+          </select>
+          {isRunning && <span className="loading loading-spinner loading-xs"></span>}
+        </div>
+      </div>
+
+      {error && <p className="text-error text-sm m-0">Simulation failed: {error}</p>}
+      {!result && !error && <span className="loading loading-spinner loading-md"></span>}
+      {result && (
+        <>
+          <div className="stats stats-vertical lg:stats-horizontal shadow">
+            <div className="stat">
+              <div className="stat-title">Expected return</div>
+              <div className={`stat-value text-2xl ${result.expectedPnl < 0 ? "text-error" : ""}`}>
+                {result.expectedReturn === undefined ? "-" : formatPercent(result.expectedReturn)}
+              </div>
+              <div className="stat-desc">{formatUsd(result.expectedPnl)} on the pool</div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">Value at risk (95%)</div>
+              <div className="stat-value text-2xl">{formatUsd(result.valueAtRisk95)}</div>
+              <div className="stat-desc">99%: {formatUsd(result.valueAtRisk99)}</div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">Expected shortfall (95%)</div>
+              <div className="stat-value text-2xl">{formatUsd(result.expectedShortfall95)}</div>
+              <div className="stat-desc">Average loss in the worst 5%</div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">Drawdown probability</div>
+              <div className={`stat-value text-2xl ${result.drawdownProbability > 0.5 ? "text-error" : ""}`}>
+                {formatPercent(result.drawdownProbability)}
+              </div>
+              <div className="stat-desc">Payouts exceed {formatUsd(result.premiums)} of premiums</div>
+            </div>
+          </div>
+
+          {result.histogram.length > 1 && (
+            <div className="flex flex-col gap-1">
+              <div className="flex items-end gap-px h-32">
+                {result.histogram.map(bucket => (
+                  <div
+                    key={bucket.from}
+                    className={`flex-1 rounded-t-sm ${bucket.to <= 0 ? "bg-error" : "bg-success"}`}
+                    style={{ height: `${(bucket.probability / maxProbability) * 100}%` }}
+                    title={`${formatUsd(bucket.from)} to ${formatUsd(bucket.to)}: ${formatPercent(bucket.probability)}`}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-xs opacity-70">
+                <span>{formatUsd(result.histogram[0].from)}</span>
+                <span>Pool P&L at the last expiry, in {Math.ceil(result.horizon / 86400)} days</span>
+                <span>{formatUsd(result.histogram[result.histogram.length - 1].to)}</span>
+              </div>
+            </div>
+          )}
+          <p className="text-xs opacity-70 m-0">
+            Prices follow a geometric Brownian motion with no drift. Options are settled at their expiry price, which is
+            when exercising pays the most with no interest rate. Standard deviation of the P&L:{" "}
+            {formatUsd(result.stdDev)}.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
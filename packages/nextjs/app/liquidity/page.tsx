@@ -0,0 +1,27 @@
+import { LiquidityDashboard } from "./_components/LiquidityDashboard";
+import { PoolRiskModel } from "./_components/PoolRiskModel";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Liquidity",
+  description: "Provide liquidity to the Options pool and track its risk and returns",
+});
+
+const Liquidity: NextPage = () => {
+  return (
+    <div className="flex flex-col items-center py-8 px-4 lg:px-10">
+      <h1 className="text-4xl font-bold mb-2">Options Liquidity Pool</h1>
+      <p className="text-neutral mt-0 mb-6 text-center">
+        Your share of the pool, deposits and withdrawals, and what the pool stands to make or lose on the options it has
+        sold.
+      </p>
+      <div className="flex flex-col gap-6 w-full max-w-6xl">
+        <LiquidityDashboard />
+        <PoolRiskModel />
+      </div>
+    </div>
+  );
+};
+
+export default Liquidity;
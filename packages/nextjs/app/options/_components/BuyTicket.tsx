@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import { formatEther, parseEther } from "viem";
+import { useAccount } from "wagmi";
+import { XCircleIcon } from "@heroicons/react/24/outline";
+import { OptionQuoteChecks } from "~~/components/options/OptionQuoteChecks";
+import { TheoreticalValue } from "~~/components/options/TheoreticalValue";
+import { useOptionPool } from "~~/hooks/options/useOptionPool";
+import { useOptionPurchase } from "~~/hooks/options/useOptionPurchase";
+import { OptionMarketName, OptionType, quoteOption } from "~~/utils/options";
+
+export type TicketSelection = { type: OptionType; strike: bigint; expiry: bigint };
+
+type BuyTicketProps = {
+  market: OptionMarketName;
+  selection?: TicketSelection;
+  onSelectionChange: (selection: TicketSelection) => void;
+};
+
+const parseAmount = (value: string) => {
+  try {
+    const parsed = parseEther(value);
+    return parsed > 0n ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Ticket for one option from the chain: exact premium and collateral, balance and allowance checks,
+ * then approve and `buyOption`
+ */
+export const BuyTicket = ({ market, selection, onSelectionChange }: BuyTicketProps) => {
+  const [amountInput, setAmountInput] = useState("1");
+
+  const { address } = useAccount();
+  const { freeLiquidity } = useOptionPool(market);
+  const { buy, step, balance, allowance, symbol } = useOptionPurchase(market);
+
+  if (!selection) {
+    return (
+      <div className="bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 p-6 text-sm opacity-70">
+        Pick a call or put from the chain to open a ticket.
+      </div>
+    );
+  }
+
+  const { type, strike, expiry } = selection;
+  const amount = parseAmount(amountInput);
+  const quote = amount ? quoteOption(market, { type, strike, amount }, freeLiquidity) : undefined;
+  const unit = symbol ?? "stable";
+
+  const hasBalance = quote && balance !== undefined ? balance >= quote.premium : undefined;
+  const needsApproval = quote && allowance !== undefined ? allowance < quote.premium : undefined;
+  const canBuy = !!address && !!quote && hasBalance !== false && quote.hasLiquidity !== false && !step;
+
+  const handleBuy = async () => {
+    if (!amount) return;
+    await buy({ type, strike, amount }, expiry);
+  };
+
+  return (
+    <div className="flex flex-col gap-4 bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 p-6">
+      <div className="join self-start">
+        {(["call", "put"] as OptionType[]).map(option => (
+          <button
+            key={option}
+            className={`btn btn-sm join-item ${type === option ? (option === "call" ? "btn-success" : "btn-error") : ""}`}
+            onClick={() => onSelectionChange({ ...selection, type: option })}
+          >
+            {option.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
+      <div className="text-sm flex flex-col gap-1">
+        <div className="flex justify-between gap-2">
+          <span>Strike</span>
+          <span className="font-medium">${formatEther(strike)}</span>
+        </div>
+        <div className="flex justify-between gap-2">
+          <span>Expiry</span>
+          <span className="font-medium">{new Date(Number(expiry) * 1000).toUTCString()}</span>
+        </div>
+      </div>
+
+      <label className="form-control">
+        <span className="label-text text-xs">Size (ETH)</span>
+        <input
+          className={`input input-bordered input-sm ${amount ? "" : "input-error"}`}
+          value={amountInput}
+          onChange={e => setAmountInput(e.target.value)}
+        />
+      </label>
+
+      {quote && (
+        <div className="bg-base-200 rounded-xl px-4 py-2 text-sm flex flex-col gap-1">
+          <div className="flex justify-between gap-2">
+            <span>Premium</span>
+            <span className="font-medium">
+              {formatEther(quote.premium)} {unit}
+            </span>
+          </div>
+          {address && balance !== undefined && (
+            <div className={`flex justify-between gap-2 ${hasBalance === false ? "text-error" : "opacity-70"}`}>
+              <span>Your balance</span>
+              <span>
+                {formatEther(balance)} {unit}
+              </span>
+            </div>
+          )}
+          {address && allowance !== undefined && (
+            <div className="flex justify-between gap-2 opacity-70">
+              <span>Allowance</span>
+              <span>
+                {formatEther(allowance)} {unit}
+                {needsApproval && " (approval needed)"}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+      <OptionQuoteChecks contractName={market} type={type} strike={strike} amount={amount} />
+      <TheoreticalValue
+        contractName={market}
+        optType={type === "call" ? 0 : 1}
+        strike={strike}
+        expiry={expiry}
+        amount={amount}
+      />
+
+      {hasBalance === false && (
+        <div className="alert alert-error py-2 text-xs">
+          <XCircleIcon className="h-5 w-5 shrink-0" />
+          <span>Not enough {unit} to pay the premium.</span>
+        </div>
+      )}
+
+      <button className="btn btn-primary btn-sm" disabled={!canBuy} onClick={handleBuy}>
+        {step && <span className="loading loading-spinner loading-xs"></span>}
+        {!address
+          ? "Connect a wallet"
+          : step === "approving"
+            ? `Approving ${unit}...`
+            : step === "buying"
+              ? "Buying..."
+              : needsApproval
+                ? `Approve ${unit} & buy ${type}`
+                : `Buy ${type}`}
+      </button>
+    </div>
+  );
+};
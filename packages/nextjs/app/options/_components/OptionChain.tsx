@@ -0,0 +1,182 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { BuyTicket, TicketSelection } from "./BuyTicket";
+import { formatEther, parseEther } from "viem";
+import { useBlock } from "wagmi";
+import { useImpliedVolatility } from "~~/hooks/options/useImpliedVolatility";
+import { useOptionPool } from "~~/hooks/options/useOptionPool";
+import { useScaffoldReadContract, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import {
+  OPTION_MARKETS,
+  OptionMarketName,
+  OptionType,
+  PremiumQuote,
+  getChainStrikes,
+  getPremium,
+  getStandardExpiries,
+} from "~~/utils/options";
+
+const MARKET_LABELS: Record<OptionMarketName, string> = {
+  Options: "Options (cash settled)",
+  PhysicallySettledOptions: "Physically settled",
+};
+
+const ONE = parseEther("1");
+
+const formatUsd = (value: bigint) =>
+  Number(formatEther(value)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatExpiry = (expiry: bigint) =>
+  new Date(Number(expiry) * 1000).toLocaleDateString(undefined, { day: "numeric", month: "short", timeZone: "UTC" });
+
+/**
+ * Option chain of strikes around spot for the standard expiries, with a ticket to buy the selected option
+ */
+export const OptionChain = () => {
+  const [market, setMarket] = useState<OptionMarketName>("Options");
+  const [expiryIndex, setExpiryIndex] = useState(0);
+  const [selection, setSelection] = useState<TicketSelection>();
+
+  const { targetNetwork } = useTargetNetwork();
+  // Chain time rather than the wall clock, local chains are often fast-forwarded
+  const { data: block } = useBlock({ chainId: targetNetwork.id, watch: true });
+  const { data: spot } = useScaffoldReadContract({ contractName: market, functionName: "getLatestPrice" });
+  const { freeLiquidity } = useOptionPool(market);
+
+  const expiries = block ? getStandardExpiries(block.timestamp) : [];
+  const expiry = expiries[Math.min(expiryIndex, expiries.length - 1)]?.expiry;
+  const strikes = spot ? getChainStrikes(spot) : [];
+
+  // Premiums don't depend on the type or expiry, implied volatilities do, quoted for one ETH
+  const quotes = useMemo(
+    () =>
+      spot === undefined || expiry === undefined
+        ? []
+        : getChainStrikes(spot).flatMap(strike =>
+            (["call", "put"] as OptionType[]).map((type): PremiumQuote => ({ type, strike, expiry, amount: ONE })),
+          ),
+    [spot, expiry],
+  );
+  const { data: impliedVolatilities } = useImpliedVolatility({ contractName: market, quotes });
+
+  const selectMarket = (name: OptionMarketName) => {
+    setMarket(name);
+    setSelection(undefined);
+  };
+
+  if (!spot || !block || expiry === undefined) return <span className="loading loading-spinner loading-md"></span>;
+
+  const formatVolatility = (index: number) => {
+    const volatility = impliedVolatilities[index];
+    return volatility !== undefined ? `${(volatility * 100).toFixed(1)}%` : "-";
+  };
+
+  const cellClass = (type: OptionType, strike: bigint) => {
+    const isSelected = selection?.type === type && selection.strike === strike && selection.expiry === expiry;
+    const isInTheMoney = type === "call" ? strike < spot : strike > spot;
+    return `cursor-pointer hover:bg-secondary ${isSelected ? "bg-primary" : isInTheMoney ? "bg-base-200" : ""}`;
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 w-full max-w-7xl">
+      <div className="lg:col-span-2 flex flex-col gap-4 bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 p-6">
+        <div className="flex flex-wrap gap-4 items-center justify-between">
+          <select
+            className="select select-bordered select-sm"
+            value={market}
+            onChange={e => selectMarket(e.target.value as OptionMarketName)}
+          >
+            {OPTION_MARKETS.map(name => (
+              <option key={name} value={name}>
+                {MARKET_LABELS[name]}
+              </option>
+            ))}
+          </select>
+          <div className="text-sm flex flex-wrap gap-x-3">
+            <span>ETH ${formatUsd(spot)}</span>
+            {freeLiquidity && (
+              <span className="opacity-70">
+                Free liquidity {formatUsd(freeLiquidity.stable)} stable
+                {market === "PhysicallySettledOptions" && ` / ${formatEther(freeLiquidity.eth)} ETH`}
+              </span>
+            )}
+          </div>
+        </div>
+
+        <div role="tablist" className="tabs tabs-boxed">
+          {expiries.map(({ expiry: timestamp, kind }, i) => (
+            <button
+              key={timestamp.toString()}
+              role="tab"
+              className={`tab ${timestamp === expiry ? "tab-active" : ""}`}
+              onClick={() => setExpiryIndex(i)}
+            >
+              {formatExpiry(timestamp)}
+              {kind === "monthly" && <span className="badge badge-xs ml-1">M</span>}
+            </button>
+          ))}
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="table table-sm text-center">
+            <thead>
+              <tr>
+                <th colSpan={2}>Calls</th>
+                <th></th>
+                <th colSpan={2}>Puts</th>
+              </tr>
+              <tr>
+                <th>IV</th>
+                <th>Premium</th>
+                <th>Strike</th>
+                <th>Premium</th>
+                <th>IV</th>
+              </tr>
+            </thead>
+            <tbody>
+              {strikes.map((strike, i) => {
+                const premium = formatUsd(getPremium(market, strike, ONE));
+                return (
+                  <tr key={strike.toString()}>
+                    <td
+                      className={cellClass("call", strike)}
+                      onClick={() => setSelection({ type: "call", strike, expiry })}
+                    >
+                      {formatVolatility(i * 2)}
+                    </td>
+                    <td
+                      className={cellClass("call", strike)}
+                      onClick={() => setSelection({ type: "call", strike, expiry })}
+                    >
+                      ${premium}
+                    </td>
+                    <th className="font-bold">{formatUsd(strike)}</th>
+                    <td
+                      className={cellClass("put", strike)}
+                      onClick={() => setSelection({ type: "put", strike, expiry })}
+                    >
+                      ${premium}
+                    </td>
+                    <td
+                      className={cellClass("put", strike)}
+                      onClick={() => setSelection({ type: "put", strike, expiry })}
+                    >
+                      {formatVolatility(i * 2 + 1)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs opacity-70 m-0">
+          Premiums for one ETH at expiry {formatExpiry(expiry)} 08:00 UTC. In the money options are shaded, IV is the
+          volatility at which Black-Scholes matches the premium.
+        </p>
+      </div>
+
+      <BuyTicket market={market} selection={selection} onSelectionChange={setSelection} />
+    </div>
+  );
+};
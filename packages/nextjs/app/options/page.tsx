@@ -0,0 +1,22 @@
+import { OptionChain } from "./_components/OptionChain";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Options",
+  description: "Option chain and buy ticket for calls and puts on ETH",
+});
+
+const Options: NextPage = () => {
+  return (
+    <div className="flex flex-col items-center py-8 px-4 lg:px-10">
+      <h1 className="text-4xl font-bold mb-2">Options</h1>
+      <p className="text-neutral mt-0 mb-6 text-center">
+        Calls and puts on ETH at strikes around the feed price, with the exact premium and collateral before you buy.
+      </p>
+      <OptionChain />
+    </div>
+  );
+};
+
+export default Options;
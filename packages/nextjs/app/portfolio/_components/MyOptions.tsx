@@ -0,0 +1,231 @@
+"use client";
+
+import { useState } from "react";
+import { formatEther } from "viem";
+import { useAccount, useBlock } from "wagmi";
+import { ExerciseWizard } from "~~/components/options/ExerciseWizard";
+import { useExerciseOption } from "~~/hooks/options/useExerciseOption";
+import { useOptionPositions } from "~~/hooks/options/useOptionPositions";
+import { OwnedOption } from "~~/hooks/options/useOwnedOptions";
+import { useScaffoldReadContract, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import {
+  ExerciseWindow,
+  Moneyness,
+  OptionMarketName,
+  getExerciseWindow,
+  getIntrinsicValue,
+  getMoneyness,
+} from "~~/utils/options";
+
+const MARKET_LABELS: Record<OptionMarketName, string> = {
+  Options: "Cash settled",
+  PhysicallySettledOptions: "Physical",
+};
+
+const MONEYNESS_BADGES: Record<Moneyness, string> = {
+  ITM: "badge-success",
+  ATM: "badge-warning",
+  OTM: "badge-ghost",
+};
+
+const WINDOW_HINTS: Record<ExerciseWindow, string> = {
+  open: "",
+  notYet: "Physically settled options can only be exercised at or after expiry",
+  missed: "Cash settled options can only be exercised up to expiry",
+  closed: "",
+};
+
+const formatUsd = (value: bigint) =>
+  Number(formatEther(value)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDuration = (seconds: bigint) => {
+  const total = Number(seconds < 0n ? -seconds : seconds);
+  const days = Math.floor(total / 86400);
+  const hours = Math.floor((total % 86400) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  return days > 0 ? `${days}d ${hours}h` : hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m ${total % 60}s`;
+};
+
+type PositionRowProps = {
+  option: OwnedOption;
+  spot: bigint;
+  now: bigint;
+  onExercise: () => void;
+  isExercising: boolean;
+  // Another exercise of the same market is waiting for the wallet
+  isBusy: boolean;
+};
+
+const PositionRow = ({ option, spot, now, onExercise, isExercising, isBusy }: PositionRowProps) => {
+  const { market, id, type, strike, amount, expiry, premium, status } = option;
+
+  const { moneyness, distance } = getMoneyness(type, strike, spot);
+  const intrinsicValue = getIntrinsicValue(market, { type, strike, amount }, spot);
+  const exerciseWindow = getExerciseWindow(market, { expiry, isActive: status === "active" }, now);
+  // Options closes the option on exercise even when it pays nothing
+  const isWorthless = market === "Options" && intrinsicValue === 0n;
+  const exerciseHint =
+    exerciseWindow === "open" && isWorthless
+      ? "Out of the money, exercising would pay nothing"
+      : WINDOW_HINTS[exerciseWindow];
+  const timeToExpiry = expiry - now;
+
+  return (
+    <tr>
+      <td>
+        <div className="font-medium">
+          {type.toUpperCase()} #{id.toString()}
+        </div>
+        <div className="text-xs opacity-70">{MARKET_LABELS[market]}</div>
+      </td>
+      <td className="text-right">${formatUsd(strike)}</td>
+      <td className="text-right">{formatEther(amount)} ETH</td>
+      <td>
+        <div>{timeToExpiry > 0n ? `in ${formatDuration(timeToExpiry)}` : `${formatDuration(timeToExpiry)} ago`}</div>
+        <div className="text-xs opacity-70">{new Date(Number(expiry) * 1000).toUTCString()}</div>
+      </td>
+      <td>
+        <span className={`badge badge-sm ${MONEYNESS_BADGES[moneyness]}`}>{moneyness}</span>
+        <span className="text-xs opacity-70 ml-1">
+          {distance > 0 ? "+" : ""}
+          {(distance * 100).toFixed(1)}%
+        </span>
+      </td>
+      <td className="text-right">
+        <div className={intrinsicValue > 0n ? "text-success font-medium" : ""}>${formatUsd(intrinsicValue)}</div>
+        <div className="text-xs opacity-70">paid ${formatUsd(premium)}</div>
+      </td>
+      <td className="text-right">
+        {status !== "active" ? (
+          <span className="badge badge-sm badge-ghost">{status}</span>
+        ) : (
+          <div className="tooltip tooltip-left" data-tip={exerciseHint || undefined}>
+            <button
+              className="btn btn-primary btn-xs"
+              disabled={exerciseWindow !== "open" || isWorthless || isBusy}
+              onClick={onExercise}
+            >
+              {isExercising && <span className="loading loading-spinner loading-xs"></span>}
+              Exercise
+            </button>
+          </div>
+        )}
+      </td>
+    </tr>
+  );
+};
+
+/**
+ * The connected account's Options and PhysicallySettledOptions positions with their moneyness, intrinsic value
+ * and an exercise action that follows each market's rules
+ */
+export const MyOptions = () => {
+  const [showClosed, setShowClosed] = useState(false);
+  // Physically settled options are exercised through the wizard, their flows differ between calls and puts
+  const [wizardOptionId, setWizardOptionId] = useState<bigint>();
+
+  const { address } = useAccount();
+  const { targetNetwork } = useTargetNetwork();
+  // Chain time rather than the wall clock, local chains are often fast-forwarded
+  const { data: block } = useBlock({ chainId: targetNetwork.id, watch: true });
+  // All markets read the same feed
+  const { data: spot } = useScaffoldReadContract({ contractName: "Options", functionName: "getLatestPrice" });
+  const { positions: cashOptions, isLoading: isLoadingCash } = useOptionPositions("Options", address);
+  const { positions: physicalOptions, isLoading: isLoadingPhysical } = useOptionPositions(
+    "PhysicallySettledOptions",
+    address,
+  );
+  const exercisers = {
+    Options: useExerciseOption("Options"),
+    PhysicallySettledOptions: useExerciseOption("PhysicallySettledOptions"),
+  };
+
+  if (!address) return <p className="text-sm opacity-70">Connect a wallet to see your options</p>;
+  if (isLoadingCash || isLoadingPhysical || !spot || !block) {
+    return <span className="loading loading-spinner loading-md"></span>;
+  }
+
+  const positions = [...cashOptions, ...physicalOptions]
+    .filter(option => showClosed || option.status === "active")
+    .sort((a, b) => Number(a.expiry - b.expiry));
+  const activeCount = [...cashOptions, ...physicalOptions].filter(option => option.status === "active").length;
+
+  return (
+    <div className="flex flex-col gap-4 w-full max-w-6xl">
+      <div className="flex flex-wrap items-center justify-between gap-4 text-sm">
+        <span>
+          {activeCount} active options · ETH ${formatUsd(spot)}
+        </span>
+        <label className="label cursor-pointer gap-2">
+          <span>Show exercised and expired</span>
+          <input
+            type="checkbox"
+            className="toggle toggle-sm"
+            checked={showClosed}
+            onChange={e => setShowClosed(e.target.checked)}
+          />
+        </label>
+      </div>
+
+      <div className="overflow-x-auto bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300">
+        <table className="table table-sm">
+          <thead>
+            <tr>
+              <th>Option</th>
+              <th className="text-right">Strike</th>
+              <th className="text-right">Size</th>
+              <th>Expiry</th>
+              <th>Moneyness</th>
+              <th className="text-right">Intrinsic value</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {positions.length === 0 && (
+              <tr>
+                <td colSpan={7} className="text-center opacity-70">
+                  No options yet
+                </td>
+              </tr>
+            )}
+            {positions.map(option => {
+              const { exercise, pendingId } = exercisers[option.market];
+              return (
+                <PositionRow
+                  key={`${option.market}-${option.id}`}
+                  option={option}
+                  spot={spot}
+                  now={block.timestamp}
+                  onExercise={() =>
+                    option.market === "PhysicallySettledOptions" ? setWizardOptionId(option.id) : exercise(option, spot)
+                  }
+                  isExercising={pendingId === option.id}
+                  isBusy={pendingId !== undefined}
+                />
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {wizardOptionId !== undefined && (
+        <div className="modal modal-open">
+          <div className="modal-box flex flex-col gap-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-bold text-lg m-0">Exercise physically settled option</h3>
+              <button className="btn btn-ghost btn-sm btn-circle" onClick={() => setWizardOptionId(undefined)}>
+                ✕
+              </button>
+            </div>
+            <ExerciseWizard optionId={wizardOptionId} onExercised={() => setWizardOptionId(undefined)} />
+          </div>
+          <div className="modal-backdrop" onClick={() => setWizardOptionId(undefined)}></div>
+        </div>
+      )}
+      <p className="text-xs opacity-70 m-0">
+        Intrinsic value is what exercising at the feed price is worth: the cash payout for cash settled options, the ETH
+        received minus the strike paid (or the reverse for puts) for physically settled ones. Physically settled options
+        can be expired by anyone once past expiry, exercise them promptly.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import { MyOptions } from "./_components/MyOptions";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "My Options",
+  description: "Your options positions and exercise actions",
+});
+
+const Portfolio: NextPage = () => {
+  return (
+    <div className="flex flex-col items-center py-8 px-4 lg:px-10">
+      <h1 className="text-4xl font-bold mb-2">My Options</h1>
+      <p className="text-neutral mt-0 mb-6 text-center">
+        Every option you bought, priced against the live feed, with exercise when the market allows it.
+      </p>
+      <MyOptions />
+    </div>
+  );
+};
+
+export default Portfolio;
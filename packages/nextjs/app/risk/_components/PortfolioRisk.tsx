@@ -0,0 +1,153 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount, useBlock } from "wagmi";
+import { usePortfolioPositions } from "~~/hooks/portfolio/usePortfolioPositions";
+import { useScaffoldReadContract, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { useDefaultVolatilityPercent } from "~~/hooks/volatility/useHistoricalVolatility";
+import { fromWad } from "~~/utils/options";
+import { PositionGreeks, getPositionGreeks, sumGreeks, toEthGreeks, toUsdGreeks } from "~~/utils/portfolio";
+
+type Terms = "ETH" | "USD";
+
+const GREEK_COLUMNS: { key: keyof PositionGreeks; label: string; description: Record<Terms, string> }[] = [
+  { key: "value", label: "Value", description: { ETH: "ETH", USD: "USD" } },
+  { key: "delta", label: "Delta", description: { ETH: "ETH", USD: "USD exposure" } },
+  { key: "gamma", label: "Gamma", description: { ETH: "ETH per $1", USD: "USD delta per 1% move" } },
+  { key: "vega", label: "Vega", description: { ETH: "ETH per vol point", USD: "USD per vol point" } },
+  { key: "theta", label: "Theta", description: { ETH: "ETH per day", USD: "USD per day" } },
+];
+
+const formatGreek = (value: number, key: keyof PositionGreeks, terms: Terms) => {
+  const digits = terms === "ETH" ? (key === "gamma" ? 6 : 4) : 2;
+  return value.toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+};
+
+/**
+ * Net and per-position Greeks of the connected account across Options, PhysicallySettledOptions and Futures
+ */
+export const PortfolioRisk = () => {
+  // Undefined until edited, the feed's realized volatility is used until then
+  const [volatilityInput, setVolatilityInput] = useState<string>();
+  const [terms, setTerms] = useState<Terms>("USD");
+
+  const { address } = useAccount();
+  const { targetNetwork } = useTargetNetwork();
+  // Chain time rather than the wall clock, local chains are often fast-forwarded
+  const { data: block } = useBlock({ chainId: targetNetwork.id, watch: true });
+  // All markets read the same feed
+  const { data: spot } = useScaffoldReadContract({ contractName: "Futures", functionName: "getLatestPrice" });
+  const { positions, isLoading } = usePortfolioPositions(address);
+  const defaultVolatilityPercent = useDefaultVolatilityPercent();
+  const volatilityPercent = volatilityInput ?? defaultVolatilityPercent.toString();
+
+  if (!address) return <p className="text-sm opacity-70">Connect a wallet to see your portfolio risk</p>;
+  if (isLoading || !spot || !block) return <span className="loading loading-spinner loading-md"></span>;
+
+  const isVolatilityValid = Number(volatilityPercent) > 0;
+  const volatility = (isVolatilityValid ? Number(volatilityPercent) : defaultVolatilityPercent) / 100;
+  const spotUsd = fromWad(spot);
+  const convert = (greeks: PositionGreeks) =>
+    terms === "ETH" ? toEthGreeks(greeks, spotUsd) : toUsdGreeks(greeks, spotUsd);
+
+  const rows = positions.map(position => ({
+    position,
+    greeks: getPositionGreeks(position, spot, block.timestamp, volatility),
+  }));
+  const net = sumGreeks(rows.map(row => row.greeks));
+
+  return (
+    <div className="flex flex-col gap-6 w-full max-w-6xl">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="join">
+          {(["USD", "ETH"] as Terms[]).map(option => (
+            <button
+              key={option}
+              className={`btn btn-sm join-item ${terms === option ? "btn-primary" : ""}`}
+              onClick={() => setTerms(option)}
+            >
+              {option} terms
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <span>ETH ${spotUsd.toFixed(2)}</span>
+          <span className="opacity-50">|</span>
+          <span>Options valued at</span>
+          <input
+            className={`input input-bordered input-xs w-16 text-right ${isVolatilityValid ? "" : "input-error"}`}
+            value={volatilityPercent}
+            onChange={e => setVolatilityInput(e.target.value)}
+          />
+          <span>% vol</span>
+        </div>
+      </div>
+
+      <div className="stats stats-vertical lg:stats-horizontal shadow bg-base-100">
+        {GREEK_COLUMNS.map(({ key, label, description }) => (
+          <div key={key} className="stat">
+            <div className="stat-title">Net {label.toLowerCase()}</div>
+            <div className={`stat-value text-2xl ${convert(net)[key] < 0 ? "text-error" : ""}`}>
+              {formatGreek(convert(net)[key], key, terms)}
+            </div>
+            <div className="stat-desc">{description[terms]}</div>
+          </div>
+        ))}
+      </div>
+
+      {rows.length > 0 && (
+        <p className="text-sm m-0">
+          {Math.abs(net.delta) < 1e-4
+            ? "The portfolio is delta neutral."
+            : `To be delta neutral, ${net.delta > 0 ? "sell" : "buy"} ${Math.abs(net.delta).toFixed(4)} ETH of exposure, e.g. with a Futures ${net.delta > 0 ? "short" : "long"}.`}
+        </p>
+      )}
+
+      <div className="overflow-x-auto bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300">
+        <table className="table table-sm">
+          <thead>
+            <tr>
+              <th>Position</th>
+              {GREEK_COLUMNS.map(({ key, label }) => (
+                <th key={key} className="text-right">
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={GREEK_COLUMNS.length + 1} className="text-center opacity-70">
+                  No open positions
+                </td>
+              </tr>
+            )}
+            {rows.map(({ position, greeks }) => (
+              <tr key={position.key}>
+                <td>{position.label}</td>
+                {GREEK_COLUMNS.map(({ key }) => (
+                  <td key={key} className="text-right">
+                    {formatGreek(convert(greeks)[key], key, terms)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+          {rows.length > 1 && (
+            <tfoot>
+              <tr>
+                <th>Net</th>
+                {GREEK_COLUMNS.map(({ key }) => (
+                  <th key={key} className="text-right">
+                    {formatGreek(convert(net)[key], key, terms)}
+                  </th>
+                ))}
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import { PortfolioRisk } from "./_components/PortfolioRisk";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Portfolio Risk",
+  description: "Net Greeks of your option and futures positions",
+});
+
+const Risk: NextPage = () => {
+  return (
+    <div className="flex flex-col items-center py-8 px-4 lg:px-10">
+      <h1 className="text-4xl font-bold mb-2">Portfolio Risk</h1>
+      <p className="text-neutral mt-0 mb-6 text-center">
+        Net delta, gamma, vega and theta of every open option and futures position, repriced as the feed moves.
+      </p>
+      <PortfolioRisk />
+    </div>
+  );
+};
+
+export default Risk;
@@ -0,0 +1,204 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount, useBlock } from "wagmi";
+import { useMarketOptions } from "~~/hooks/options/useOwnedOptions";
+import { usePortfolioPositions } from "~~/hooks/portfolio/usePortfolioPositions";
+import { useScaffoldReadContract, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { useDefaultVolatilityPercent } from "~~/hooks/volatility/useHistoricalVolatility";
+import { fromWad } from "~~/utils/options";
+import { OptionPayoffPosition } from "~~/utils/payoff";
+import { ScenarioCell, runScenarioGrid } from "~~/utils/scenarios";
+
+type Metric = "traderPnl" | "traderOptionsValue" | "futuresPnl" | "optionsPool" | "physicalPool";
+
+const METRICS: Record<Metric, { label: string; value: (cell: ScenarioCell) => number | undefined; isCost?: boolean }> =
+  {
+    traderPnl: { label: "Your total P&L", value: cell => cell.traderPnl },
+    traderOptionsValue: { label: "Your options value", value: cell => cell.traderOptionsValue },
+    futuresPnl: { label: "Your futures PnL", value: cell => cell.futuresPnl },
+    optionsPool: {
+      label: "Options pool net liability",
+      value: cell => cell.poolNetLiability.Options,
+      isCost: true,
+    },
+    physicalPool: {
+      label: "Physically settled pool net liability",
+      value: cell => cell.poolNetLiability.PhysicallySettledOptions,
+      isCost: true,
+    },
+  };
+
+const parseList = (value: string) =>
+  value
+    .split(",")
+    .map(item => Number(item.trim()))
+    .filter(item => Number.isFinite(item) && item >= 0);
+
+const formatCompact = (value: number) =>
+  value.toLocaleString(undefined, { notation: "compact", maximumFractionDigits: 1 });
+
+/**
+ * Heatmap of the trader's positions and the option pools repriced on a grid of price shocks and time offsets
+ */
+export const ScenarioAnalysis = () => {
+  const [metric, setMetric] = useState<Metric>("traderPnl");
+  // Undefined until edited, the feed's realized volatility is used until then
+  const [volatilityInput, setVolatilityInput] = useState<string>();
+  const [maxShockPercent, setMaxShockPercent] = useState("50");
+  const [stepPercent, setStepPercent] = useState("10");
+  const [offsetDays, setOffsetDays] = useState("0, 1, 7, 30");
+
+  const { address } = useAccount();
+  const { targetNetwork } = useTargetNetwork();
+  // Chain time rather than the wall clock, local chains are often fast-forwarded
+  const { data: block } = useBlock({ chainId: targetNetwork.id, watch: true });
+  // All markets read the same feed
+  const { data: spot } = useScaffoldReadContract({ contractName: "Futures", functionName: "getLatestPrice" });
+  const { positions } = usePortfolioPositions(address);
+  const { options: cashOptions } = useMarketOptions("Options");
+  const { options: physicalOptions } = useMarketOptions("PhysicallySettledOptions");
+  const defaultVolatilityPercent = useDefaultVolatilityPercent();
+  const volatilityPercent = volatilityInput ?? defaultVolatilityPercent.toString();
+
+  const volatility = (Number(volatilityPercent) > 0 ? Number(volatilityPercent) : defaultVolatilityPercent) / 100;
+  const maxShock = Math.min(Math.max(Number(maxShockPercent) || 50, 1), 99);
+  const step = Math.min(Math.max(Number(stepPercent) || 10, 1), maxShock);
+  const shockCount = Math.floor(maxShock / step);
+  const shocks = Array.from({ length: shockCount * 2 + 1 }, (_, i) => ((i - shockCount) * step) / 100);
+  const offsets = parseList(offsetDays).map(days => Math.round(days * 86400));
+
+  const poolOptions = [...cashOptions, ...physicalOptions]
+    .filter(option => option.status === "active")
+    .map(({ market, type, strike, expiry, amount, premium }): OptionPayoffPosition => ({
+      kind: "option",
+      market,
+      type,
+      strike,
+      expiry,
+      amount,
+      premium,
+    }));
+
+  const now = block?.timestamp;
+  const grid =
+    spot && now !== undefined
+      ? runScenarioGrid({ traderPositions: positions, poolOptions, spot, now, volatility }, shocks, offsets)
+      : undefined;
+
+  if (!grid || !spot) return <span className="loading loading-spinner loading-md"></span>;
+
+  const { value, isCost } = METRICS[metric];
+  const values = grid.flat().map(value);
+  const maxAbs = Math.max(...values.map(item => Math.abs(item ?? 0)), 1e-9);
+
+  // Green for gains, red for losses, pool liabilities are losses for the LPs
+  const cellStyle = (cellValue?: number) => {
+    if (cellValue === undefined) return undefined;
+    const outcome = isCost ? -cellValue : cellValue;
+    const alpha = Math.min(Math.abs(outcome) / maxAbs, 1) * 0.75;
+    return { backgroundColor: outcome >= 0 ? `rgba(34, 197, 94, ${alpha})` : `rgba(239, 68, 68, ${alpha})` };
+  };
+
+  return (
+    <div className="flex flex-col gap-4 w-full max-w-7xl">
+      <div className="flex flex-wrap gap-4 items-end">
+        <label className="form-control">
+          <span className="label-text text-xs">Show</span>
+          <select
+            className="select select-bordered select-sm"
+            value={metric}
+            onChange={e => setMetric(e.target.value as Metric)}
+          >
+            {(Object.keys(METRICS) as Metric[]).map(key => (
+              <option key={key} value={key}>
+                {METRICS[key].label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="form-control w-24">
+          <span className="label-text text-xs">Max shock (%)</span>
+          <input
+            className="input input-bordered input-sm"
+            value={maxShockPercent}
+            onChange={e => setMaxShockPercent(e.target.value)}
+          />
+        </label>
+        <label className="form-control w-24">
+          <span className="label-text text-xs">Step (%)</span>
+          <input
+            className="input input-bordered input-sm"
+            value={stepPercent}
+            onChange={e => setStepPercent(e.target.value)}
+          />
+        </label>
+        <label className="form-control w-40">
+          <span className="label-text text-xs">Days ahead</span>
+          <input
+            className="input input-bordered input-sm"
+            value={offsetDays}
+            onChange={e => setOffsetDays(e.target.value)}
+          />
+        </label>
+        <label className="form-control w-24">
+          <span className="label-text text-xs">Volatility (%)</span>
+          <input
+            className="input input-bordered input-sm"
+            value={volatilityPercent}
+            onChange={e => setVolatilityInput(e.target.value)}
+          />
+        </label>
+        <span className="text-sm ml-auto">
+          ETH ${fromWad(spot).toFixed(2)} · {positions.length} positions of yours · {poolOptions.length} active pool
+          options
+        </span>
+      </div>
+
+      <div className="overflow-x-auto bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 p-4">
+        <table className="table table-xs text-center">
+          <thead>
+            <tr>
+              <th className="text-left">Days \ ETH</th>
+              {grid[0]?.map(cell => (
+                <th key={cell.shock}>
+                  {cell.shock > 0 ? "+" : ""}
+                  {Math.round(cell.shock * 100)}%
+                  <div className="font-normal opacity-70">${fromWad(cell.price).toFixed(0)}</div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {grid.map(row => (
+              <tr key={row[0]?.offset}>
+                <th className="text-left">{(row[0]?.offset ?? 0) / 86400}d</th>
+                {row.map(cell => {
+                  const cellValue = value(cell);
+                  return (
+                    <td
+                      key={cell.shock}
+                      style={cellStyle(cellValue)}
+                      title={`ETH $${fromWad(cell.price).toFixed(2)} in ${cell.offset / 86400} days: ${
+                        cellValue === undefined ? "no futures position" : `$${cellValue.toFixed(2)}`
+                      }${cell.isLiquidated ? ", futures position liquidated" : ""}`}
+                    >
+                      {cellValue === undefined ? "-" : formatCompact(cellValue)}
+                      {cell.isLiquidated && (metric === "traderPnl" || metric === "futuresPnl") && (
+                        <div className="badge badge-error badge-xs">LIQ</div>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs opacity-70 m-0">
+        Values in USD. Options are valued with Black-Scholes before expiry and at their exercise value after it. Pool
+        net liability is what the pool would owe its buyers minus the premiums it collected, positive means LPs lose.
+      </p>
+    </div>
+  );
+};
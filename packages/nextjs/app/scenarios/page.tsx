@@ -0,0 +1,23 @@
+import { ScenarioAnalysis } from "./_components/ScenarioAnalysis";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Scenario Analysis",
+  description: "What your positions and the option pools are worth if ETH moves by a given date",
+});
+
+const Scenarios: NextPage = () => {
+  return (
+    <div className="flex flex-col items-center py-8 px-4 lg:px-10">
+      <h1 className="text-4xl font-bold mb-2">Scenario Analysis</h1>
+      <p className="text-neutral mt-0 mb-6 text-center">
+        What if ETH moves to X by date Y? Your positions and the option pools repriced on a grid of price shocks and
+        time offsets.
+      </p>
+      <ScenarioAnalysis />
+    </div>
+  );
+};
+
+export default Scenarios;
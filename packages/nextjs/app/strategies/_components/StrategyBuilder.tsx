@@ -0,0 +1,337 @@
+"use client";
+
+import { useState } from "react";
+import { formatEther, parseEther } from "viem";
+import { useBlock } from "wagmi";
+import { ExclamationTriangleIcon, PlusIcon, TrashIcon, XCircleIcon } from "@heroicons/react/24/outline";
+import { PayoffDiagram } from "~~/components/payoff/PayoffDiagram";
+import { useOptionPool } from "~~/hooks/options/useOptionPool";
+import { LegStatus, useStrategySubmission } from "~~/hooks/options/useStrategySubmission";
+import { useScaffoldReadContract, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import {
+  OPTION_MARKETS,
+  OptionMarketName,
+  OptionType,
+  STRATEGY_PRESETS,
+  StrategyLeg,
+  StrategyPresetName,
+  WAD,
+  getNotional,
+  quoteStrategy,
+  roundToStrike,
+} from "~~/utils/options";
+import { PayoffPosition } from "~~/utils/payoff";
+
+type LegInput = { type: OptionType; strike: string; amount: string };
+
+const MARKET_LABELS: Record<OptionMarketName, string> = {
+  Options: "Options (cash settled)",
+  PhysicallySettledOptions: "Physically settled",
+};
+
+const STATUS_BADGES: Record<LegStatus, string> = {
+  idle: "badge-ghost",
+  pending: "badge-info",
+  confirmed: "badge-success",
+  failed: "badge-error",
+  skipped: "badge-warning",
+};
+
+const STRIKE_STEP = parseEther("50");
+
+const parsePositive = (value: string) => {
+  try {
+    const parsed = parseEther(value);
+    return parsed > 0n ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const formatUsd = (value: bigint) =>
+  Number(formatEther(value)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Builds a multi-leg strategy from presets or custom legs, quotes it against the pool and buys it leg by leg
+ */
+export const StrategyBuilder = () => {
+  const [market, setMarket] = useState<OptionMarketName>("Options");
+  const [legInputs, setLegInputs] = useState<LegInput[]>([]);
+  const [width, setWidth] = useState("200");
+  const [amount, setAmount] = useState("1");
+  const [expiryDays, setExpiryDays] = useState("7");
+
+  const { targetNetwork } = useTargetNetwork();
+  // Chain time rather than the wall clock, local chains are often fast-forwarded
+  const { data: block } = useBlock({ chainId: targetNetwork.id, watch: true });
+  const { data: spot } = useScaffoldReadContract({ contractName: market, functionName: "getLatestPrice" });
+  const { freeLiquidity } = useOptionPool(market);
+  const { submit, reset, isSubmitting, approvalStatus, legStatuses, submittedExpiry, isPartiallyFilled, isComplete } =
+    useStrategySubmission(market);
+
+  const legs = legInputs.map(({ type, strike, amount }) => ({
+    type,
+    strike: parsePositive(strike),
+    amount: parsePositive(amount),
+  }));
+  const validLegs = legs.filter((leg): leg is StrategyLeg => !!leg.strike && !!leg.amount);
+  const isValid = validLegs.length > 0 && validLegs.length === legs.length;
+
+  const expiryOffset = BigInt(Math.max(Math.round(Number(expiryDays) * 86400), 0) || 0);
+  // A retry buys the remaining legs at the expiry of the first attempt
+  const expiry = submittedExpiry ?? (block ? block.timestamp + expiryOffset : undefined);
+  const quote = isValid ? quoteStrategy(market, validLegs, freeLiquidity) : undefined;
+
+  const positions: PayoffPosition[] =
+    quote && expiry
+      ? validLegs.map((leg, i) => ({ kind: "option", market, ...leg, expiry, premium: quote.legs[i].premium }))
+      : [];
+
+  // The legs can't change under a strategy that is partly bought
+  const isLocked = isSubmitting || isPartiallyFilled || isComplete;
+
+  const applyPreset = (name: StrategyPresetName) => {
+    const center = spot ? roundToStrike(spot, STRIKE_STEP) : parseEther("3000");
+    const built = STRATEGY_PRESETS[name].build(center, parsePositive(width) ?? 0n, parsePositive(amount) ?? 0n);
+    setLegInputs(
+      built.map(leg => ({ type: leg.type, strike: formatEther(leg.strike), amount: formatEther(leg.amount) })),
+    );
+  };
+
+  const updateLeg = (index: number, update: Partial<LegInput>) =>
+    setLegInputs(inputs => inputs.map((input, i) => (i === index ? { ...input, ...update } : input)));
+
+  const addLeg = () =>
+    setLegInputs(inputs => [
+      ...inputs,
+      { type: "call", strike: spot ? formatEther(roundToStrike(spot, STRIKE_STEP)) : "", amount },
+    ]);
+
+  const handleSubmit = async () => {
+    if (!isValid || !expiry) return;
+    await submit(validLegs, expiry);
+  };
+
+  const isEthCollateral = (quote?.collateral.eth ?? 0n) > 0n;
+  // Options' collateral isn't rescaled, its notional is what the buyer should read
+  const isUnscaled = market === "Options";
+  const notional = validLegs.reduce((total, leg) => total + getNotional(leg.strike, leg.amount), 0n);
+  const confirmedCount = legStatuses.filter(status => status === "confirmed").length;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 w-full max-w-7xl">
+      <div className="flex flex-col gap-4 bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 p-6">
+        <div className="flex flex-wrap gap-4 items-end">
+          <label className="form-control">
+            <span className="label-text text-xs">Market</span>
+            <select
+              className="select select-bordered select-sm"
+              value={market}
+              disabled={isLocked}
+              onChange={e => setMarket(e.target.value as OptionMarketName)}
+            >
+              {OPTION_MARKETS.map(name => (
+                <option key={name} value={name}>
+                  {MARKET_LABELS[name]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="form-control w-24">
+            <span className="label-text text-xs">Strike width ($)</span>
+            <input className="input input-bordered input-sm" value={width} onChange={e => setWidth(e.target.value)} />
+          </label>
+          <label className="form-control w-24">
+            <span className="label-text text-xs">Size (ETH)</span>
+            <input className="input input-bordered input-sm" value={amount} onChange={e => setAmount(e.target.value)} />
+          </label>
+          <label className="form-control w-24">
+            <span className="label-text text-xs">Expiry (days)</span>
+            <input
+              className="input input-bordered input-sm"
+              value={expiryDays}
+              disabled={isLocked}
+              onChange={e => setExpiryDays(e.target.value)}
+            />
+          </label>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(STRATEGY_PRESETS) as StrategyPresetName[]).map(name => (
+            <button
+              key={name}
+              className="btn btn-secondary btn-sm tooltip tooltip-bottom"
+              data-tip={STRATEGY_PRESETS[name].description}
+              disabled={isLocked}
+              onClick={() => applyPreset(name)}
+            >
+              {STRATEGY_PRESETS[name].label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-col gap-2">
+          {legInputs.map((input, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <span className="text-sm w-12">Leg {i + 1}</span>
+              <select
+                className="select select-bordered select-sm"
+                value={input.type}
+                disabled={isLocked}
+                onChange={e => updateLeg(i, { type: e.target.value as OptionType })}
+              >
+                <option value="call">Call</option>
+                <option value="put">Put</option>
+              </select>
+              <input
+                className={`input input-bordered input-sm w-28 ${legs[i].strike ? "" : "input-error"}`}
+                placeholder="Strike ($)"
+                value={input.strike}
+                disabled={isLocked}
+                onChange={e => updateLeg(i, { strike: e.target.value })}
+              />
+              <input
+                className={`input input-bordered input-sm w-24 ${legs[i].amount ? "" : "input-error"}`}
+                placeholder="Size (ETH)"
+                value={input.amount}
+                disabled={isLocked}
+                onChange={e => updateLeg(i, { amount: e.target.value })}
+              />
+              {quote && <span className="text-xs opacity-70 grow text-right">${formatUsd(quote.legs[i].premium)}</span>}
+              {legStatuses[i] && (
+                <span className={`badge badge-sm ${STATUS_BADGES[legStatuses[i]]}`}>{legStatuses[i]}</span>
+              )}
+              <button
+                className="btn btn-ghost btn-xs"
+                disabled={isLocked}
+                onClick={() => setLegInputs(inputs => inputs.filter((_, j) => j !== i))}
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          <button className="btn btn-ghost btn-sm self-start" disabled={isLocked} onClick={addLeg}>
+            <PlusIcon className="h-4 w-4" /> Add leg
+          </button>
+        </div>
+
+        {quote && (
+          <div className="bg-base-200 rounded-xl px-4 py-2 text-sm flex flex-col gap-1">
+            <div className="flex justify-between gap-2">
+              <span>Combined premium</span>
+              <span className="font-medium">${formatUsd(quote.premium)}</span>
+            </div>
+            {isUnscaled ? (
+              <div className="flex justify-between gap-2">
+                <span>Notional</span>
+                <span className="font-medium">${formatUsd(notional)}</span>
+              </div>
+            ) : (
+              <div className="flex justify-between gap-2">
+                <span>Collateral locked</span>
+                <span className="font-medium">
+                  {isEthCollateral && `${formatEther(quote.collateral.eth)} ETH`}
+                  {isEthCollateral && quote.collateral.stable > 0n && " + "}
+                  {(!isEthCollateral || quote.collateral.stable > 0n) &&
+                    `${formatEther(quote.collateral.stable)} stable`}
+                </span>
+              </div>
+            )}
+            {freeLiquidity && !isUnscaled && (
+              <div className="flex justify-between gap-2 opacity-70">
+                <span>Free pool liquidity</span>
+                <span>
+                  {formatEther(freeLiquidity.stable)} stable
+                  {market === "PhysicallySettledOptions" && ` / ${formatEther(freeLiquidity.eth)} ETH`}
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+        {quote && isUnscaled && (
+          <div className="alert alert-warning py-2 text-xs">
+            <ExclamationTriangleIcon className="h-5 w-5 shrink-0" />
+            <span>
+              Options locks <code>strike * amount</code> as collateral without dividing by 1e18, so the pool needs 1e18
+              times the notional free: {formatUsd(notional)} × 10<sup>18</sup> stable for these legs
+              {freeLiquidity && (
+                <>
+                  , {formatUsd(freeLiquidity.stable / WAD)} × 10<sup>18</sup> stable is free
+                </>
+              )}
+              .
+            </span>
+          </div>
+        )}
+        {quote?.legs.some(leg => leg.truncatedAmount !== undefined) && (
+          <div className="alert alert-warning py-2 text-xs">
+            <ExclamationTriangleIcon className="h-5 w-5 shrink-0" />
+            <span>Options prices and settles whole units only, fractional sizes are rounded down (minimum one).</span>
+          </div>
+        )}
+        {quote?.firstUnfundedLeg !== undefined && (
+          <div className="alert alert-error py-2 text-xs">
+            <XCircleIcon className="h-5 w-5 shrink-0" />
+            <span>
+              The pool can&apos;t collateralize leg {quote.firstUnfundedLeg + 1} once the legs before it are bought, it
+              would revert and leave the strategy incomplete.
+            </span>
+          </div>
+        )}
+
+        {(approvalStatus !== "idle" || legStatuses.length > 0) && (
+          <ul className="steps steps-vertical lg:steps-horizontal text-xs">
+            <li className={`step ${approvalStatus === "confirmed" ? "step-success" : ""}`}>
+              Approve {approvalStatus === "failed" ? "(failed)" : ""}
+            </li>
+            {legStatuses.map((status, i) => (
+              <li
+                key={i}
+                className={`step ${status === "confirmed" ? "step-success" : ""} ${status === "failed" ? "step-error" : ""}`}
+              >
+                Leg {i + 1}
+              </li>
+            ))}
+          </ul>
+        )}
+        {isPartiallyFilled && !isSubmitting && (
+          <div className="alert alert-warning py-2 text-xs">
+            <ExclamationTriangleIcon className="h-5 w-5 shrink-0" />
+            <span>
+              {confirmedCount} of {legStatuses.length} legs were bought, the strategy is incomplete. Retry to buy the
+              remaining legs, or start over to keep only what was bought.
+            </span>
+          </div>
+        )}
+        {isComplete && (
+          <div className="alert alert-success py-2 text-xs">
+            <span>All {legStatuses.length} legs were bought.</span>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {(isPartiallyFilled || isComplete || approvalStatus === "failed") && (
+            <button className="btn btn-ghost btn-sm" disabled={isSubmitting} onClick={reset}>
+              Start over
+            </button>
+          )}
+          {!isComplete && (
+            <button
+              className="btn btn-primary btn-sm"
+              disabled={!isValid || !expiry || isSubmitting}
+              onClick={handleSubmit}
+            >
+              {isSubmitting && <span className="loading loading-spinner loading-xs"></span>}
+              {isPartiallyFilled ? "Retry remaining legs" : `Buy ${validLegs.length || ""} legs`}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 p-6">
+        <h2 className="text-lg font-bold mt-0">Combined payoff</h2>
+        <PayoffDiagram positions={positions} spot={spot} />
+      </div>
+    </div>
+  );
+};
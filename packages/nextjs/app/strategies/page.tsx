@@ -0,0 +1,22 @@
+import { StrategyBuilder } from "./_components/StrategyBuilder";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Strategy Builder",
+  description: "Build multi-leg option strategies and buy every leg in one go",
+});
+
+const Strategies: NextPage = () => {
+  return (
+    <div className="flex flex-col items-center py-8 px-4 lg:px-10">
+      <h1 className="text-4xl font-bold mb-2">Strategy Builder</h1>
+      <p className="text-neutral mt-0 mb-6 text-center">
+        Combine calls and puts into straddles, strangles and ladders, then buy the legs one after another.
+      </p>
+      <StrategyBuilder />
+    </div>
+  );
+};
+
+export default Strategies;
@@ -4,7 +4,17 @@ import React, { useCallback, useRef, useState } from "react";
 import Image from "next/image";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { Bars3Icon, BugAntIcon } from "@heroicons/react/24/outline";
+import {
+  ArrowTrendingUpIcon,
+  BanknotesIcon,
+  Bars3Icon,
+  BriefcaseIcon,
+  BugAntIcon,
+  ChartBarIcon,
+  ChartPieIcon,
+  PuzzlePieceIcon,
+  TableCellsIcon,
+} from "@heroicons/react/24/outline";
 import { FaucetButton, RainbowKitCustomConnectButton } from "~~/components/scaffold-eth";
 import { useOutsideClick } from "~~/hooks/scaffold-eth";
 
@@ -19,6 +29,41 @@ export const menuLinks: HeaderMenuLink[] = [
     label: "Home",
     href: "/",
   },
+  {
+    label: "Options",
+    href: "/options",
+    icon: <ChartBarIcon className="h-4 w-4" />,
+  },
+  {
+    label: "My Options",
+    href: "/portfolio",
+    icon: <BriefcaseIcon className="h-4 w-4" />,
+  },
+  {
+    label: "Futures",
+    href: "/futures",
+    icon: <ArrowTrendingUpIcon className="h-4 w-4" />,
+  },
+  {
+    label: "Strategies",
+    href: "/strategies",
+    icon: <PuzzlePieceIcon className="h-4 w-4" />,
+  },
+  {
+    label: "Risk",
+    href: "/risk",
+    icon: <ChartPieIcon className="h-4 w-4" />,
+  },
+  {
+    label: "Scenarios",
+    href: "/scenarios",
+    icon: <TableCellsIcon className="h-4 w-4" />,
+  },
+  {
+    label: "Liquidity",
+    href: "/liquidity",
+    icon: <BanknotesIcon className="h-4 w-4" />,
+  },
   {
     label: "Debug Contracts",
     href: "/debug",
@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { formatEther, formatUnits, parseEther } from "viem";
+import { FuturesPosition, getFuturesScenarios } from "~~/utils/futures";
+
+type FuturesScenariosProps = {
+  position: FuturesPosition;
+  maintenanceMarginRatio: bigint;
+  // Price the default moves are taken from, 1e18 scaled
+  referencePrice: bigint;
+  stableDecimals: number;
+};
+
+// Price moves shown by default, in percent
+const DEFAULT_MOVES = [-20n, -10n, -5n, 5n, 10n, 20n];
+
+const formatPrice = (price: bigint) =>
+  Number(formatEther(price)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * PnL and close payout of a futures position at target prices
+ */
+export const FuturesScenarios = ({
+  position,
+  maintenanceMarginRatio,
+  referencePrice,
+  stableDecimals,
+}: FuturesScenariosProps) => {
+  const [targetPrice, setTargetPrice] = useState("");
+
+  let customPrice: bigint | undefined;
+  try {
+    customPrice = targetPrice ? parseEther(targetPrice) : undefined;
+  } catch {
+    customPrice = undefined;
+  }
+
+  const prices = DEFAULT_MOVES.map(move => (referencePrice * (100n + move)) / 100n);
+  if (customPrice && customPrice > 0n) prices.push(customPrice);
+  const scenarios = getFuturesScenarios(position, prices, maintenanceMarginRatio);
+  const formatStable = (value: bigint) =>
+    Number(formatUnits(value, stableDecimals)).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium">PnL at target prices</span>
+        <input
+          className="input input-ghost input-xs w-28 text-right bg-base-100"
+          placeholder="Target price ($)"
+          value={targetPrice}
+          onChange={e => setTargetPrice(e.target.value)}
+        />
+      </div>
+      <table className="table table-xs">
+        <thead>
+          <tr>
+            <th>Price</th>
+            <th className="text-right">PnL</th>
+            <th className="text-right">Close payout</th>
+          </tr>
+        </thead>
+        <tbody>
+          {scenarios.map(({ price, pnl, payout, isLiquidated }, i) => (
+            <tr key={i} className={i === DEFAULT_MOVES.length ? "font-medium" : ""}>
+              <td>
+                ${formatPrice(price)}
+                {i < DEFAULT_MOVES.length && (
+                  <span className="opacity-60">
+                    {" "}
+                    ({DEFAULT_MOVES[i] > 0n ? "+" : ""}
+                    {DEFAULT_MOVES[i].toString()}%)
+                  </span>
+                )}
+              </td>
+              <td className={`text-right ${pnl < 0n ? "text-error" : "text-success"}`}>{formatStable(pnl)}</td>
+              <td className="text-right">
+                {isLiquidated ? <span className="text-error">Liquidated</span> : formatStable(payout)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+"use client";
+
+import { formatEther, formatUnits } from "viem";
+import { ExclamationTriangleIcon } from "@heroicons/react/24/outline";
+import { FuturesScenarios } from "~~/components/futures/FuturesScenarios";
+import { useFuturesParams } from "~~/hooks/futures/useFuturesParams";
+import { quoteFuturesOrder } from "~~/utils/futures";
+
+type MarginCalculatorProps = {
+  // `openPosition` arguments, in the stablecoin's smallest unit for the margin
+  deposit?: bigint;
+  leverage?: bigint;
+  isLong?: boolean;
+};
+
+const formatPrice = (price: bigint) =>
+  Number(formatEther(price)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Fee, post-fee margin and liquidation price of a Futures order if it were opened at the current price
+ */
+export const MarginCalculator = ({ deposit, leverage, isLong }: MarginCalculatorProps) => {
+  const { params, maxLeverage, price, stableDecimals } = useFuturesParams();
+
+  if (!deposit || !leverage || isLong === undefined) {
+    return (
+      <p className="text-xs opacity-70 m-0 ml-2">Fill in margin, leverage and side to see the liquidation price</p>
+    );
+  }
+  if (!params || !price || stableDecimals === undefined) {
+    return <p className="text-xs opacity-70 m-0 ml-2">Loading market parameters...</p>;
+  }
+
+  const quote = quoteFuturesOrder({ side: isLong ? "long" : "short", deposit, leverage }, price, params);
+  const distance = Number(((quote.liquidationPrice - price) * 10000n) / price) / 100;
+  const formatStable = (value: bigint) =>
+    Number(formatUnits(value, stableDecimals)).toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+  return (
+    <div className="bg-base-200 rounded-xl px-4 py-2 text-sm flex flex-col gap-1">
+      {maxLeverage !== undefined && leverage > maxLeverage && (
+        <div className="alert alert-warning py-2 text-xs">
+          <ExclamationTriangleIcon className="h-5 w-5 shrink-0" />
+          <span>Leverage above {maxLeverage.toString()}x is rejected by the contract.</span>
+        </div>
+      )}
+      <div className="flex justify-between gap-2">
+        <span>Trading fee ({(Number(params.tradingFeeBps) / 100).toString()}%)</span>
+        <span className="font-medium">{formatStable(quote.fee)}</span>
+      </div>
+      <div className="flex justify-between gap-2">
+        <span>Margin after fee</span>
+        <span className="font-medium">{formatStable(quote.position.margin)}</span>
+      </div>
+      <div className="flex justify-between gap-2">
+        <span>Exposure</span>
+        <span className="font-medium">
+          {formatStable(quote.exposure)}
+          <span className="opacity-70">
+            {" "}
+            ({(Number(formatUnits(quote.exposure, stableDecimals)) / Number(formatEther(price))).toFixed(4)} ETH)
+          </span>
+        </span>
+      </div>
+      <div className="flex justify-between gap-2">
+        <span>Entry price</span>
+        <span className="font-medium">${formatPrice(price)}</span>
+      </div>
+      <div className="flex justify-between gap-2">
+        <span>Maintenance margin ({params.maintenanceMarginRatio.toString()}%)</span>
+        <span className="font-medium">{formatStable(quote.maintenanceMargin)}</span>
+      </div>
+      <div className="flex justify-between gap-2">
+        <span>Liquidation price</span>
+        <span className="font-medium text-error">
+          ${formatPrice(quote.liquidationPrice)}
+          <span className="opacity-70">
+            {" "}
+            ({distance > 0 ? "+" : ""}
+            {distance.toFixed(2)}%)
+          </span>
+        </span>
+      </div>
+      <FuturesScenarios
+        position={quote.position}
+        maintenanceMarginRatio={params.maintenanceMarginRatio}
+        referencePrice={price}
+        stableDecimals={stableDecimals}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+"use client";
+
+import { Address, formatEther, formatUnits } from "viem";
+import { useAccount } from "wagmi";
+import { FuturesScenarios } from "~~/components/futures/FuturesScenarios";
+import { useFuturesParams } from "~~/hooks/futures/useFuturesParams";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { FUTURES_SIDES, getLiquidationPrice, getPositionValue, isLiquidatable } from "~~/utils/futures";
+
+type PositionRiskProps = {
+  // Defaults to the connected account
+  trader?: Address;
+};
+
+const formatPrice = (price: bigint) =>
+  Number(formatEther(price)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Live PnL, equity and liquidation price of a trader's open Futures position
+ */
+export const PositionRisk = ({ trader }: PositionRiskProps) => {
+  const { address: connectedAddress } = useAccount();
+  const account = trader ?? connectedAddress;
+  const { params, price, stableDecimals } = useFuturesParams();
+  const { data: rawPosition } = useScaffoldReadContract({
+    contractName: "Futures",
+    functionName: "positions",
+    args: [account],
+    query: { enabled: !!account },
+  });
+
+  if (!account) return <p className="text-xs opacity-70 m-0 ml-2">Connect a wallet to see your position</p>;
+  if (!rawPosition || !params || !price || stableDecimals === undefined) return null;
+
+  const [posType, margin, entryPrice, leverage, isOpen] = rawPosition;
+  const side = FUTURES_SIDES[posType];
+  if (!isOpen || !side) return <p className="text-xs opacity-70 m-0 ml-2">No open position</p>;
+
+  const position = { side, margin, leverage, entryPrice };
+  const pnl = getPositionValue(position, price);
+  const liquidationPrice = getLiquidationPrice(position, params.maintenanceMarginRatio);
+  const distance = Number(((liquidationPrice - price) * 10000n) / price) / 100;
+  const formatStable = (value: bigint) =>
+    Number(formatUnits(value, stableDecimals)).toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+  return (
+    <div className="bg-base-200 rounded-xl px-4 py-2 text-sm flex flex-col gap-1">
+      <div className="flex justify-between gap-2">
+        <span className="font-medium">
+          {leverage.toString()}x {side}
+        </span>
+        {isLiquidatable(position, price, params.maintenanceMarginRatio) && (
+          <span className="badge badge-error badge-sm">Liquidatable</span>
+        )}
+      </div>
+      <div className="flex justify-between gap-2">
+        <span>Entry / mark price</span>
+        <span className="font-medium">
+          ${formatPrice(entryPrice)} / ${formatPrice(price)}
+        </span>
+      </div>
+      <div className="flex justify-between gap-2">
+        <span>Margin</span>
+        <span className="font-medium">{formatStable(margin)}</span>
+      </div>
+      <div className="flex justify-between gap-2">
+        <span>Unrealized PnL</span>
+        <span className={`font-medium ${pnl < 0n ? "text-error" : "text-success"}`}>{formatStable(pnl)}</span>
+      </div>
+      <div className="flex justify-between gap-2">
+        <span>Equity</span>
+        <span className="font-medium">{formatStable(margin + pnl)}</span>
+      </div>
+      <div className="flex justify-between gap-2">
+        <span>Liquidation price</span>
+        <span className="font-medium text-error">
+          ${formatPrice(liquidationPrice)}
+          <span className="opacity-70">
+            {" "}
+            ({distance > 0 ? "+" : ""}
+            {distance.toFixed(2)}%)
+          </span>
+        </span>
+      </div>
+      <FuturesScenarios
+        position={position}
+        maintenanceMarginRatio={params.maintenanceMarginRatio}
+        referencePrice={price}
+        stableDecimals={stableDecimals}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import { formatEther } from "viem";
+import { useAccount, useBlock } from "wagmi";
+import { CheckCircleIcon, ExclamationTriangleIcon, XCircleIcon } from "@heroicons/react/24/outline";
+import { useExerciseOption } from "~~/hooks/options/useExerciseOption";
+import { useScaffoldReadContract, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { getExerciseWindow, planExercise } from "~~/utils/options";
+
+type ExerciseWizardProps = {
+  optionId?: bigint;
+  onExercised?: () => void;
+};
+
+const STEPS = ["Review", "Funds", "Exercise"];
+
+const formatUsd = (value: bigint) =>
+  Number(formatEther(value)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Walks a buyer through exercising a PhysicallySettledOptions option: checks the window and moneyness, then the
+ * exact stable approval a call needs or the ETH a put must send as `msg.value`, then submits with that value
+ */
+export const ExerciseWizard = ({ optionId, onExercised }: ExerciseWizardProps) => {
+  const [acceptsLoss, setAcceptsLoss] = useState(false);
+
+  const { address } = useAccount();
+  const { targetNetwork } = useTargetNetwork();
+  // Chain time rather than the wall clock, local chains are often fast-forwarded
+  const { data: block } = useBlock({ chainId: targetNetwork.id, watch: true });
+  const { data: spot } = useScaffoldReadContract({
+    contractName: "PhysicallySettledOptions",
+    functionName: "getLatestPrice",
+  });
+  const { data: option } = useScaffoldReadContract({
+    contractName: "PhysicallySettledOptions",
+    functionName: "options",
+    args: [optionId],
+  });
+  const { exercise, approve, step, funds } = useExerciseOption("PhysicallySettledOptions");
+
+  if (optionId === undefined) return null;
+  if (!option || !spot || !block) return <span className="loading loading-spinner loading-sm"></span>;
+
+  const [buyer, optionType, strike, expiry, amount, , , isActive] = option;
+  if (strike === 0n)
+    return <p className="text-xs text-error m-0 ml-2">Option #{optionId.toString()} doesn&apos;t exist</p>;
+
+  const terms = { type: optionType === 0 ? ("call" as const) : ("put" as const), strike, amount };
+  const exerciseWindow = getExerciseWindow("PhysicallySettledOptions", { expiry, isActive }, block.timestamp);
+  const plan = funds ? planExercise("PhysicallySettledOptions", terms, spot, funds) : undefined;
+  const isBuyer = address?.toLowerCase() === buyer.toLowerCase();
+  const isOutOfTheMoney = plan !== undefined && plan.value < 0n;
+
+  let blocker: string | undefined;
+  if (!address) blocker = "Connect the wallet that bought this option.";
+  else if (!isBuyer) blocker = `Only the buyer, ${buyer}, can exercise this option.`;
+  else if (exerciseWindow === "closed") blocker = "This option was already exercised or expired.";
+  else if (exerciseWindow === "notYet") {
+    blocker = `Physically settled options can only be exercised at or after expiry, ${new Date(
+      Number(expiry) * 1000,
+    ).toUTCString()}.`;
+  }
+
+  const isReviewed = !blocker && plan !== undefined && (!isOutOfTheMoney || acceptsLoss);
+  const hasFunds = plan !== undefined && !plan.isStableShort && !plan.isEthShort;
+  const currentStep = !isReviewed ? 0 : !hasFunds || plan.needsApproval ? 1 : 2;
+  const exercisable = { id: optionId, ...terms };
+
+  const handleExercise = async () => {
+    const isDone = await exercise(exercisable, spot);
+    if (isDone) onExercised?.();
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <ul className="steps w-full">
+        {STEPS.map((label, i) => (
+          <li key={label} className={`step text-xs ${i <= currentStep ? "step-primary" : ""}`}>
+            {label}
+          </li>
+        ))}
+      </ul>
+
+      <div className="bg-base-200 rounded-xl px-4 py-2 flex flex-col gap-1">
+        <div className="flex justify-between gap-2">
+          <span>
+            {terms.type.toUpperCase()} #{optionId.toString()}
+          </span>
+          <span className="font-medium">
+            {formatEther(amount)} ETH at ${formatUsd(strike)}
+          </span>
+        </div>
+        {plan && (
+          <>
+            <div className="flex justify-between gap-2">
+              <span>You pay</span>
+              <span className="font-medium">
+                {terms.type === "call" ? `${formatEther(plan.stableFromBuyer)} stable` : `${formatEther(amount)} ETH`}
+              </span>
+            </div>
+            <div className="flex justify-between gap-2">
+              <span>You receive</span>
+              <span className="font-medium">
+                {terms.type === "call" ? `${formatEther(amount)} ETH` : `${formatEther(plan.stableToBuyer)} stable`}
+              </span>
+            </div>
+            <div className="flex justify-between gap-2">
+              <span>Worth at ETH ${formatUsd(spot)}</span>
+              <span className={`font-medium ${plan.value < 0n ? "text-error" : "text-success"}`}>
+                {plan.value < 0n ? "-" : "+"}${formatUsd(plan.value < 0n ? -plan.value : plan.value)}
+              </span>
+            </div>
+          </>
+        )}
+      </div>
+
+      {blocker && (
+        <div className="alert alert-error py-2 text-xs">
+          <XCircleIcon className="h-5 w-5 shrink-0" />
+          <span>{blocker}</span>
+        </div>
+      )}
+
+      {!blocker && isOutOfTheMoney && (
+        <div className="alert alert-warning py-2 text-xs flex flex-col items-start">
+          <div className="flex gap-2">
+            <ExclamationTriangleIcon className="h-5 w-5 shrink-0" />
+            <span>
+              This option is out of the money. The contract settles at the strike without checking the price, so
+              exercising it would lose money compared with trading at the feed price.
+            </span>
+          </div>
+          <label className="label cursor-pointer gap-2 p-0">
+            <input
+              type="checkbox"
+              className="checkbox checkbox-xs"
+              checked={acceptsLoss}
+              onChange={e => setAcceptsLoss(e.target.checked)}
+            />
+            <span>Exercise anyway</span>
+          </label>
+        </div>
+      )}
+
+      {isReviewed && plan && terms.type === "call" && (
+        <div className="flex flex-col gap-1">
+          <div className="flex justify-between gap-2">
+            <span>Stable approval (exactly strike × amount)</span>
+            <span className="font-medium flex items-center gap-1">
+              {formatEther(plan.stableFromBuyer)}
+              {!plan.needsApproval && <CheckCircleIcon className="h-4 w-4 text-success" />}
+            </span>
+          </div>
+          <div className={`flex justify-between gap-2 ${plan.isStableShort ? "text-error" : "opacity-70"}`}>
+            <span>Stable balance</span>
+            <span>{formatEther(funds?.stableBalance ?? 0n)}</span>
+          </div>
+          {plan.needsApproval && (
+            <button
+              className="btn btn-secondary btn-sm"
+              disabled={plan.isStableShort || !!step}
+              onClick={() => approve(exercisable, spot)}
+            >
+              {step === "approving" && <span className="loading loading-spinner loading-xs"></span>}
+              Approve {formatEther(plan.stableFromBuyer)} stable
+            </button>
+          )}
+        </div>
+      )}
+
+      {isReviewed && plan && terms.type === "put" && (
+        <div className="flex flex-col gap-1">
+          <div className="flex justify-between gap-2">
+            <span>Value sent (exactly the option&apos;s amount)</span>
+            <span className="font-medium">{plan.ethFromBuyer.toString()} wei</span>
+          </div>
+          <div className={`flex justify-between gap-2 ${plan.isEthShort ? "text-error" : "opacity-70"}`}>
+            <span>ETH balance</span>
+            <span>{formatEther(funds?.ethBalance ?? 0n)} ETH, plus gas</span>
+          </div>
+        </div>
+      )}
+
+      {isReviewed && plan && !hasFunds && (
+        <div className="alert alert-error py-2 text-xs">
+          <XCircleIcon className="h-5 w-5 shrink-0" />
+          <span>
+            Not enough {terms.type === "call" ? "stable to pay the strike" : "ETH to deliver"}, the exercise would
+            revert.
+          </span>
+        </div>
+      )}
+
+      <button className="btn btn-primary btn-sm" disabled={currentStep < 2 || !!step} onClick={handleExercise}>
+        {step === "exercising" && <span className="loading loading-spinner loading-xs"></span>}
+        {terms.type === "put" && plan ? `Exercise, sending ${formatEther(plan.ethFromBuyer)} ETH` : "Exercise"}
+      </button>
+    </div>
+  );
+};
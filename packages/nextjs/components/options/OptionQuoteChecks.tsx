@@ -0,0 +1,82 @@
+"use client";
+
+import { formatEther } from "viem";
+import { ExclamationTriangleIcon, XCircleIcon } from "@heroicons/react/24/outline";
+import { useOptionPool } from "~~/hooks/options/useOptionPool";
+import { OptionMarketName, OptionType, WAD, getNotional, quoteOption } from "~~/utils/options";
+
+type OptionQuoteChecksProps = {
+  contractName: OptionMarketName;
+  type?: OptionType;
+  strike?: bigint;
+  amount?: bigint;
+};
+
+const formatUsd = (value: bigint) =>
+  Number(formatEther(value)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Collateral a buy locks, with warnings for what the contract will do differently than the buyer expects:
+ * size truncation and unscaled collateral in Options and pools without enough free liquidity, which makes
+ * `buyOption` revert
+ */
+export const OptionQuoteChecks = ({ contractName, type, strike, amount }: OptionQuoteChecksProps) => {
+  const { freeLiquidity } = useOptionPool(contractName);
+  if (!type || !strike || !amount) return null;
+
+  const quote = quoteOption(contractName, { type, strike, amount }, freeLiquidity);
+  const isEthCollateral = quote.collateral.eth > 0n;
+  const unit = isEthCollateral ? "ETH" : "stable";
+  // Options' collateral isn't rescaled, its notional is what the buyer should read
+  const isUnscaled = contractName === "Options";
+  const collateral = isUnscaled
+    ? getNotional(strike, amount)
+    : isEthCollateral
+      ? quote.collateral.eth
+      : quote.collateral.stable;
+  const available = isEthCollateral ? freeLiquidity?.eth : freeLiquidity?.stable;
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex justify-between gap-2 px-4">
+        <span>{isUnscaled ? "Notional" : "Collateral locked"}</span>
+        <span className="font-medium">
+          {isUnscaled ? `$${formatUsd(collateral)}` : `${formatEther(collateral)} ${unit}`}
+          {available !== undefined && !isUnscaled && (
+            <span className="opacity-70"> / {formatEther(available)} free</span>
+          )}
+        </span>
+      </div>
+      {isUnscaled && (
+        <div className="alert alert-warning py-2 text-xs">
+          <ExclamationTriangleIcon className="h-5 w-5 shrink-0" />
+          <span>
+            Options locks <code>strike * amount</code> as collateral without dividing by 1e18, so the pool needs 1e18
+            times the notional free: {formatUsd(collateral)} × 10<sup>18</sup> {unit} for this buy
+            {available !== undefined && (
+              <>
+                , {formatUsd(available / WAD)} × 10<sup>18</sup> {unit} is free
+              </>
+            )}
+            .
+          </span>
+        </div>
+      )}
+      {quote.truncatedAmount !== undefined && (
+        <div className="alert alert-warning py-2 text-xs">
+          <ExclamationTriangleIcon className="h-5 w-5 shrink-0" />
+          <span>
+            Options prices and settles whole units only: {formatEther(amount)} is charged premium and paid out as{" "}
+            {formatEther(quote.truncatedAmount)}.
+          </span>
+        </div>
+      )}
+      {quote.hasLiquidity === false && (
+        <div className="alert alert-error py-2 text-xs">
+          <XCircleIcon className="h-5 w-5 shrink-0" />
+          <span>The pool doesn&apos;t have enough free collateral for this size, the transaction would revert.</span>
+        </div>
+      )}
+    </div>
+  );
+};
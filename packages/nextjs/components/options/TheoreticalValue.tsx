@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { formatEther } from "viem";
+import { useBlock } from "wagmi";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth/useTargetNetwork";
+import { useDefaultVolatilityPercent, useHistoricalVolatility } from "~~/hooks/volatility/useHistoricalVolatility";
+import { OptionMarketName, blackScholesWad, getPremium, getPremiumImpliedVolatility, toWad } from "~~/utils/options";
+
+type TheoreticalValueProps = {
+  contractName: OptionMarketName;
+  // 0 for CALL, 1 for PUT, as in the contracts' OptionType
+  optType?: number;
+  strike?: bigint;
+  expiry?: bigint;
+  amount?: bigint;
+};
+
+const formatUsd = (value: bigint) =>
+  Number(formatEther(value)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Compares the premium a market charges with the Black-Scholes value of the same option
+ */
+export const TheoreticalValue = ({ contractName, optType, strike, expiry, amount }: TheoreticalValueProps) => {
+  // Undefined until edited, the feed's realized volatility is used until then
+  const [volatilityInput, setVolatilityInput] = useState<string>();
+  const defaultVolatilityPercent = useDefaultVolatilityPercent();
+  const { estimates } = useHistoricalVolatility();
+  const { targetNetwork } = useTargetNetwork();
+  // Chain time rather than the wall clock, local chains are often fast-forwarded
+  const { data: block } = useBlock({ chainId: targetNetwork.id, watch: true });
+  const { data: spot } = useScaffoldReadContract({ contractName, functionName: "getLatestPrice" });
+
+  const volatilityPercent = volatilityInput ?? defaultVolatilityPercent.toString();
+  const volatility = Number(volatilityPercent) / 100;
+  const isComplete =
+    (optType === 0 || optType === 1) && !!strike && !!expiry && !!amount && !!spot && block !== undefined;
+
+  if (!isComplete) {
+    return <p className="text-xs opacity-70 m-0 ml-2">Fill in type, strike, expiry and amount to see a fair value</p>;
+  }
+
+  const secondsToExpiry = expiry - block.timestamp;
+  if (secondsToExpiry <= 0n) {
+    return <p className="text-xs text-error m-0 ml-2">Expiry is in the past</p>;
+  }
+
+  const type = optType === 0 ? "call" : "put";
+  const premium = getPremium(contractName, strike, amount);
+  const impliedVolatility = getPremiumImpliedVolatility(
+    contractName,
+    { type, strike, expiry, amount },
+    spot,
+    block.timestamp,
+  );
+  const greeks =
+    Number.isFinite(volatility) && volatility >= 0
+      ? blackScholesWad({
+          type,
+          spot,
+          strike,
+          volatility: toWad(volatility),
+          secondsToExpiry,
+          amount,
+        })
+      : undefined;
+  const premiumRatio = greeks && greeks.value > 0n ? Number((premium * 10000n) / greeks.value) / 100 : undefined;
+
+  return (
+    <div className="bg-base-200 rounded-xl px-4 py-2 text-sm flex flex-col gap-1">
+      <div className="flex justify-between gap-2">
+        <span>On-chain premium</span>
+        <span className="font-medium">${formatUsd(premium)}</span>
+      </div>
+      <div className="flex justify-between gap-2">
+        <span>Implied volatility of premium</span>
+        <span className="font-medium">
+          {impliedVolatility !== undefined ? `${(impliedVolatility * 100).toFixed(1)}%` : "n/a"}
+        </span>
+      </div>
+      <div className="flex justify-between items-center gap-2">
+        <span className="flex items-center gap-1">
+          Black-Scholes value at
+          <input
+            className="input input-ghost input-xs w-14 text-right bg-base-100"
+            value={volatilityPercent}
+            onChange={e => setVolatilityInput(e.target.value)}
+          />
+          % vol
+        </span>
+        <span className="font-medium">{greeks ? `$${formatUsd(greeks.value)}` : "-"}</span>
+      </div>
+      <div className="flex justify-between gap-2 text-xs opacity-80">
+        <span>Realized volatility</span>
+        <span>
+          {estimates
+            .map(
+              ({ label, volatility }) =>
+                `${label} ${volatility !== undefined ? `${(volatility * 100).toFixed(1)}%` : "n/a"}`,
+            )
+            .join(" · ") || "loading"}
+        </span>
+      </div>
+      {premiumRatio !== undefined && (
+        <div className="flex justify-between gap-2">
+          <span>Premium / fair value</span>
+          <span className={`font-medium ${premiumRatio > 100 ? "text-error" : "text-success"}`}>
+            {premiumRatio.toFixed(2)}% ({premiumRatio > 100 ? "expensive" : "cheap"})
+          </span>
+        </div>
+      )}
+      {greeks && (
+        <div className="flex flex-wrap gap-x-3 text-xs opacity-80">
+          <span>Δ {Number(formatEther(greeks.delta)).toFixed(4)}</span>
+          <span>Γ {Number(formatEther(greeks.gamma)).toFixed(6)}</span>
+          <span>Vega {formatUsd(greeks.vega / 100n)} / vol pt</span>
+          <span>Θ {formatUsd(greeks.theta / 365n)} / day</span>
+          <span>ρ {formatUsd(greeks.rho / 100n)} / %</span>
+        </div>
+      )}
+    </div>
+  );
+};
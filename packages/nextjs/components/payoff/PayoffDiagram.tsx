@@ -0,0 +1,227 @@
+"use client";
+
+import { MouseEvent, useMemo, useState } from "react";
+import { useBlock } from "wagmi";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth/useTargetNetwork";
+import { useDefaultVolatilityPercent } from "~~/hooks/volatility/useHistoricalVolatility";
+import { fromWad } from "~~/utils/options";
+import { PayoffPosition, getBreakevens, getDefaultPriceRange, getPayoffCurve, getPayoffMarkers } from "~~/utils/payoff";
+
+type PayoffDiagramProps = {
+  positions: PayoffPosition[];
+  // `getLatestPrice`, 1e18 scaled
+  spot?: bigint;
+  // Annualized volatility used to value options today, e.g. 0.8 for 80% (default: the feed's realized volatility)
+  volatility?: number;
+  // USD price range of the x axis, by default around the spot and every marker
+  priceRange?: [number, number];
+  height?: number;
+};
+
+const WIDTH = 640;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 64 };
+
+const MARKER_COLORS = {
+  strike: "stroke-info",
+  entry: "stroke-accent",
+  liquidation: "stroke-error",
+};
+
+const formatUsd = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatPnl = (value: number) => `${value < 0 ? "-" : "+"}$${formatUsd(Math.abs(value))}`;
+
+/**
+ * P&L at expiry and today of one or more option and futures positions across a range of underlying prices
+ */
+export const PayoffDiagram = ({
+  positions,
+  spot,
+  volatility: volatilityProp,
+  priceRange,
+  height = 300,
+}: PayoffDiagramProps) => {
+  const [hoverIndex, setHoverIndex] = useState<number>();
+  const { targetNetwork } = useTargetNetwork();
+  // Chain time rather than the wall clock, local chains are often fast-forwarded
+  const { data: block } = useBlock({ chainId: targetNetwork.id, watch: true });
+  const now = block?.timestamp;
+  const defaultVolatilityPercent = useDefaultVolatilityPercent();
+  const volatility = volatilityProp ?? defaultVolatilityPercent / 100;
+
+  const spotUsd = spot !== undefined ? fromWad(spot) : undefined;
+  const [minPrice, maxPrice] = priceRange ?? getDefaultPriceRange(positions, spotUsd ?? 0);
+
+  const curve = useMemo(
+    () =>
+      now !== undefined && positions.length > 0 && maxPrice > minPrice
+        ? getPayoffCurve(positions, minPrice, maxPrice, { now, volatility })
+        : [],
+    [positions, minPrice, maxPrice, now, volatility],
+  );
+
+  if (positions.length === 0) {
+    return <p className="text-sm opacity-70 m-0">Add a position to see its payoff</p>;
+  }
+  if (curve.length === 0) {
+    return <p className="text-sm opacity-70 m-0">Loading payoff...</p>;
+  }
+
+  const pnls = curve.flatMap(point => [point.expiry, point.current]);
+  const pnlPadding = Math.max((Math.max(...pnls) - Math.min(...pnls)) * 0.1, 1);
+  const minPnl = Math.min(...pnls, 0) - pnlPadding;
+  const maxPnl = Math.max(...pnls, 0) + pnlPadding;
+
+  const x = (price: number) =>
+    PADDING.left + ((price - minPrice) / (maxPrice - minPrice)) * (WIDTH - PADDING.left - PADDING.right);
+  const y = (pnl: number) =>
+    PADDING.top + ((maxPnl - pnl) / (maxPnl - minPnl)) * (height - PADDING.top - PADDING.bottom);
+  const isInRange = (price: number) => price >= minPrice && price <= maxPrice;
+  const toPoints = (key: "expiry" | "current") => curve.map(point => `${x(point.price)},${y(point[key])}`).join(" ");
+
+  const breakevens = getBreakevens(curve);
+  const markers = getPayoffMarkers(positions).filter(marker => isInRange(marker.price));
+  const hovered = hoverIndex !== undefined ? curve[hoverIndex] : undefined;
+
+  const handleMouseMove = (event: MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const svgX = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    const ratio = (svgX - PADDING.left) / (WIDTH - PADDING.left - PADDING.right);
+    setHoverIndex(Math.min(Math.max(Math.round(ratio * (curve.length - 1)), 0), curve.length - 1));
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full bg-base-200 rounded-xl text-xs"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(undefined)}
+      >
+        {/* Axes and zero line */}
+        <line
+          x1={PADDING.left}
+          x2={WIDTH - PADDING.right}
+          y1={y(0)}
+          y2={y(0)}
+          className="stroke-base-content opacity-40"
+        />
+        <line
+          x1={PADDING.left}
+          x2={PADDING.left}
+          y1={PADDING.top}
+          y2={height - PADDING.bottom}
+          className="stroke-base-content opacity-40"
+        />
+        {[maxPnl, 0, minPnl].map(pnl => (
+          <text
+            key={pnl}
+            x={PADDING.left - 6}
+            y={y(pnl)}
+            textAnchor="end"
+            dominantBaseline="middle"
+            fill="currentColor"
+          >
+            {formatPnl(pnl)}
+          </text>
+        ))}
+        {[minPrice, (minPrice + maxPrice) / 2, maxPrice].map((price, i) => (
+          <text
+            key={i}
+            x={x(price)}
+            y={height - 8}
+            textAnchor={i === 0 ? "start" : i === 2 ? "end" : "middle"}
+            fill="currentColor"
+          >
+            ${formatUsd(price)}
+          </text>
+        ))}
+
+        {/* Strikes, entry and liquidation prices, and the current price */}
+        {markers.map((marker, i) => (
+          <g key={`${marker.kind}-${i}`}>
+            <line
+              x1={x(marker.price)}
+              x2={x(marker.price)}
+              y1={PADDING.top}
+              y2={height - PADDING.bottom}
+              strokeDasharray="4 4"
+              className={MARKER_COLORS[marker.kind]}
+            />
+            <text x={x(marker.price) + 3} y={PADDING.top + 10 + (i % 3) * 12} fill="currentColor" opacity={0.8}>
+              {marker.label}
+            </text>
+          </g>
+        ))}
+        {spotUsd !== undefined && isInRange(spotUsd) && (
+          <g>
+            <line
+              x1={x(spotUsd)}
+              x2={x(spotUsd)}
+              y1={PADDING.top}
+              y2={height - PADDING.bottom}
+              className="stroke-warning"
+            />
+            <text x={x(spotUsd) + 3} y={height - PADDING.bottom - 6} fill="currentColor">
+              Spot ${formatUsd(spotUsd)}
+            </text>
+          </g>
+        )}
+
+        {/* P&L today and at expiry */}
+        <polyline
+          points={toPoints("current")}
+          fill="none"
+          strokeWidth={2}
+          strokeDasharray="6 3"
+          className="stroke-secondary"
+        />
+        <polyline points={toPoints("expiry")} fill="none" strokeWidth={2} className="stroke-primary" />
+
+        {breakevens.map(price => (
+          <circle key={price} cx={x(price)} cy={y(0)} r={4} className="fill-success" />
+        ))}
+
+        {hovered && (
+          <g pointerEvents="none">
+            <line
+              x1={x(hovered.price)}
+              x2={x(hovered.price)}
+              y1={PADDING.top}
+              y2={height - PADDING.bottom}
+              className="stroke-base-content opacity-60"
+            />
+            <circle cx={x(hovered.price)} cy={y(hovered.expiry)} r={3} className="fill-primary" />
+            <circle cx={x(hovered.price)} cy={y(hovered.current)} r={3} className="fill-secondary" />
+          </g>
+        )}
+      </svg>
+
+      <div className="flex flex-wrap justify-between gap-x-4 gap-y-1 text-xs px-1">
+        <div className="flex flex-wrap gap-x-3">
+          <span className="text-primary">━ At expiry</span>
+          <span className="text-secondary">╍ Today ({(volatility * 100).toFixed(0)}% vol)</span>
+          <span className="text-success">● Breakeven</span>
+        </div>
+        {hovered ? (
+          <div className="flex flex-wrap gap-x-3 font-medium">
+            <span>Price ${formatUsd(hovered.price)}</span>
+            <span className={hovered.expiry < 0 ? "text-error" : "text-success"}>
+              Expiry {formatPnl(hovered.expiry)}
+            </span>
+            <span className={hovered.current < 0 ? "text-error" : "text-success"}>
+              Today {formatPnl(hovered.current)}
+            </span>
+          </div>
+        ) : (
+          <span className="opacity-70">
+            {breakevens.length > 0
+              ? `Breakeven at ${breakevens.map(price => `$${formatUsd(price)}`).join(", ")}`
+              : "No breakeven in range"}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import { erc20Abi } from "viem";
+import { useReadContract } from "wagmi";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { FuturesParams } from "~~/utils/futures";
+
+/**
+ * Fee and risk parameters of the Futures contract, its current price and its stablecoin's decimals
+ */
+export const useFuturesParams = () => {
+  const { data: tradingFeeBps } = useScaffoldReadContract({ contractName: "Futures", functionName: "tradingFeeBps" });
+  const { data: maintenanceMarginRatio } = useScaffoldReadContract({
+    contractName: "Futures",
+    functionName: "MAINTENANCE_MARGIN_RATIO",
+  });
+  const { data: maxLeverage } = useScaffoldReadContract({ contractName: "Futures", functionName: "MAX_LEVERAGE" });
+  const { data: price } = useScaffoldReadContract({ contractName: "Futures", functionName: "getLatestPrice" });
+  const { data: stableCoin } = useScaffoldReadContract({ contractName: "Futures", functionName: "stableCoin" });
+  const { data: stableDecimals } = useReadContract({
+    address: stableCoin,
+    abi: erc20Abi,
+    functionName: "decimals",
+    query: { enabled: !!stableCoin },
+  });
+
+  const params: FuturesParams | undefined =
+    tradingFeeBps !== undefined && maintenanceMarginRatio !== undefined
+      ? { tradingFeeBps, maintenanceMarginRatio }
+      : undefined;
+
+  return { params, maxLeverage, price, stableDecimals };
+};
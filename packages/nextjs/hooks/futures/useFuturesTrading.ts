@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { erc20Abi } from "viem";
+import { useAccount, useReadContract } from "wagmi";
+import { useDeployedContractInfo, useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { useStableApproval } from "~~/hooks/stable/useStableApproval";
+import { FUTURES_SIDES, FuturesOrder, FuturesPosition } from "~~/utils/futures";
+import { notification } from "~~/utils/scaffold-eth";
+
+export type FuturesTradeStep = "approving" | "opening" | "closing";
+
+/**
+ * The connected account's Futures position, valued on-chain with `getPositionValue` and `checkLiquidation`, its
+ * stablecoin balance and allowance, the liquidity `openPosition` checks, and the actions to open (approving exactly
+ * the margin first) and close
+ */
+export const useFuturesTrading = () => {
+  const [pendingStep, setPendingStep] = useState<Exclude<FuturesTradeStep, "approving">>();
+
+  const { address } = useAccount();
+  const { data: futuresContract } = useDeployedContractInfo({ contractName: "Futures" });
+  const {
+    stableAddress: stableCoin,
+    balance,
+    allowance,
+    symbol,
+    approveIfNeeded,
+    isApproving,
+    refetch,
+  } = useStableApproval("Futures");
+  const { data: price } = useScaffoldReadContract({ contractName: "Futures", functionName: "getLatestPrice" });
+  const { data: accumulatedFees } = useScaffoldReadContract({
+    contractName: "Futures",
+    functionName: "accumulatedFees",
+  });
+
+  const { data: rawPosition } = useScaffoldReadContract({
+    contractName: "Futures",
+    functionName: "positions",
+    args: [address],
+    query: { enabled: !!address },
+  });
+  const [posType, margin, entryPrice, leverage, isOpen] = rawPosition ?? [];
+  const side = posType !== undefined ? FUTURES_SIDES[posType] : undefined;
+  const position: FuturesPosition | undefined =
+    isOpen && side && margin !== undefined && entryPrice !== undefined && leverage !== undefined
+      ? { side, margin, entryPrice, leverage }
+      : undefined;
+
+  // Both revert or are meaningless without an open position
+  const { data: pnl } = useScaffoldReadContract({
+    contractName: "Futures",
+    functionName: "getPositionValue",
+    args: [
+      position && posType !== undefined
+        ? {
+            posType,
+            margin: position.margin,
+            entryPrice: position.entryPrice,
+            leverage: position.leverage,
+            isOpen: true,
+          }
+        : undefined,
+      price,
+    ],
+  });
+  const { data: isLiquidatable } = useScaffoldReadContract({
+    contractName: "Futures",
+    functionName: "checkLiquidation",
+    args: [isOpen ? address : undefined],
+  });
+
+  const { data: contractBalance, refetch: refetchContractBalance } = useReadContract({
+    address: stableCoin,
+    abi: erc20Abi,
+    functionName: "balanceOf",
+    args: futuresContract ? [futuresContract.address] : undefined,
+    query: { enabled: !!stableCoin && !!futuresContract },
+  });
+  const availableLiquidity =
+    contractBalance !== undefined && accumulatedFees !== undefined ? contractBalance - accumulatedFees : undefined;
+
+  const { writeContractAsync: writeFutures } = useScaffoldWriteContract({ contractName: "Futures" });
+
+  const refetchBalances = () => Promise.all([refetch(), refetchContractBalance()]);
+
+  /**
+   * @returns whether the position was opened
+   */
+  const open = async ({ side: orderSide, deposit, leverage: orderLeverage }: FuturesOrder) => {
+    if (!futuresContract || !stableCoin) {
+      notification.error("Target Contract is not deployed, did you forget to run `yarn deploy`?");
+      return false;
+    }
+
+    try {
+      if (!(await approveIfNeeded(deposit))) return false;
+
+      setPendingStep("opening");
+      const hash = await writeFutures({
+        functionName: "openPosition",
+        args: [deposit, orderLeverage, orderSide === "long"],
+      });
+      return !!hash;
+    } catch (e) {
+      console.error("⚡️ ~ file: useFuturesTrading.ts ~ open ~ error", e);
+      return false;
+    } finally {
+      setPendingStep(undefined);
+      await refetchBalances();
+    }
+  };
+
+  /**
+   * @returns whether the position was closed
+   */
+  const close = async () => {
+    try {
+      setPendingStep("closing");
+      const hash = await writeFutures({ functionName: "closePosition" });
+      return !!hash;
+    } catch (e) {
+      console.error("⚡️ ~ file: useFuturesTrading.ts ~ close ~ error", e);
+      return false;
+    } finally {
+      setPendingStep(undefined);
+      await refetchBalances();
+    }
+  };
+
+  const step: FuturesTradeStep | undefined = isApproving ? "approving" : pendingStep;
+
+  return {
+    position,
+    pnl,
+    isLiquidatable,
+    price,
+    balance,
+    allowance,
+    availableLiquidity,
+    symbol,
+    open,
+    close,
+    step,
+  };
+};
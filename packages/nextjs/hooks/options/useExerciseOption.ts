@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { Abi } from "viem";
+import { useAccount, useBalance, useWriteContract } from "wagmi";
+import { useDeployedContractInfo, useTransactor } from "~~/hooks/scaffold-eth";
+import { useStableApproval } from "~~/hooks/stable/useStableApproval";
+import { ExerciseFunds, OptionMarketName, OptionTerms, getExerciseFlows } from "~~/utils/options";
+import { notification } from "~~/utils/scaffold-eth";
+
+export type ExerciseStep = "approving" | "exercising";
+
+type ExercisableOption = OptionTerms & { id: bigint };
+
+/**
+ * Exercises an option with what the market needs alongside `exerciseOption`: nothing for Options,
+ * a stable approval of the strike notional for PhysicallySettledOptions calls and the option's ETH amount
+ * as value for its puts. Also exposes the buyer's funds so a wizard can check them first.
+ * @param market - Options or PhysicallySettledOptions
+ */
+export const useExerciseOption = (market: OptionMarketName) => {
+  const [pendingId, setPendingId] = useState<bigint>();
+  const [isExercising, setIsExercising] = useState(false);
+
+  const { address } = useAccount();
+  const { data: marketContract } = useDeployedContractInfo({ contractName: market });
+  const {
+    stableAddress,
+    balance: stableBalance,
+    allowance,
+    approveIfNeeded,
+    isApproving,
+    refetch: refetchStable,
+  } = useStableApproval(market);
+  const { data: ethBalance, refetch: refetchEthBalance } = useBalance({
+    address,
+    query: { enabled: !!address },
+  });
+
+  const funds: ExerciseFunds | undefined =
+    stableBalance !== undefined && allowance !== undefined && ethBalance !== undefined
+      ? { stableBalance, allowance, ethBalance: ethBalance.value }
+      : undefined;
+
+  const { writeContractAsync } = useWriteContract();
+  const writeTx = useTransactor();
+
+  const refetchFunds = () => Promise.all([refetchStable(), refetchEthBalance()]);
+
+  /**
+   * @returns whether the allowance now covers the exercise
+   */
+  const approve = async ({ id, type, strike, amount }: ExercisableOption, price: bigint) => {
+    const { stableFromBuyer } = getExerciseFlows(market, { type, strike, amount }, price);
+
+    setPendingId(id);
+    try {
+      return await approveIfNeeded(stableFromBuyer);
+    } catch (e) {
+      console.error("⚡️ ~ file: useExerciseOption.ts ~ approve ~ error", e);
+      return false;
+    } finally {
+      setPendingId(undefined);
+      await refetchFunds();
+    }
+  };
+
+  /**
+   * @returns whether the option was exercised
+   */
+  const exercise = async ({ id, type, strike, amount }: ExercisableOption, price: bigint) => {
+    if (!marketContract || !stableAddress) {
+      notification.error("Target Contract is not deployed, did you forget to run `yarn deploy`?");
+      return false;
+    }
+    const { stableFromBuyer, ethFromBuyer } = getExerciseFlows(market, { type, strike, amount }, price);
+
+    setPendingId(id);
+    try {
+      if (!(await approveIfNeeded(stableFromBuyer))) return false;
+
+      setIsExercising(true);
+      // Only PhysicallySettledOptions' exerciseOption is payable, so the market's ABI is used untyped
+      const hash = await writeTx(() =>
+        writeContractAsync({
+          address: marketContract.address,
+          abi: marketContract.abi as Abi,
+          functionName: "exerciseOption",
+          args: [id],
+          value: ethFromBuyer > 0n ? ethFromBuyer : undefined,
+        }),
+      );
+      return !!hash;
+    } catch (e) {
+      console.error("⚡️ ~ file: useExerciseOption.ts ~ exercise ~ error", e);
+      return false;
+    } finally {
+      setPendingId(undefined);
+      setIsExercising(false);
+      await refetchFunds();
+    }
+  };
+
+  const step: ExerciseStep | undefined = isApproving ? "approving" : isExercising ? "exercising" : undefined;
+
+  return { exercise, approve, pendingId, step, funds };
+};
@@ -0,0 +1,39 @@
+import { useMemo } from "react";
+import { useBlock } from "wagmi";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth/useTargetNetwork";
+import { OptionMarketName, PremiumQuote, getPremiumImpliedVolatility } from "~~/utils/options";
+
+/**
+ * Implied volatility of the premium `contractName` charges for each quote, e.g. every strike and expiry
+ * of an option chain. Spot comes from the market's `getLatestPrice` and time from the latest block,
+ * so both follow a local chain that is being fast-forwarded.
+ * @param config.contractName - Options or PhysicallySettledOptions
+ * @param config.quotes - options to price, in the contracts' 1e18 scaling
+ * @param config.rate - annualized risk-free rate (default: 0)
+ */
+export const useImpliedVolatility = ({
+  contractName,
+  quotes,
+  rate = 0,
+}: {
+  contractName: OptionMarketName;
+  quotes: PremiumQuote[];
+  rate?: number;
+}) => {
+  const { targetNetwork } = useTargetNetwork();
+  const { data: block } = useBlock({ chainId: targetNetwork.id, watch: true });
+  const { data: spot, isLoading } = useScaffoldReadContract({ contractName, functionName: "getLatestPrice" });
+
+  const impliedVolatilities = useMemo(
+    () =>
+      quotes.map(quote =>
+        spot !== undefined && block !== undefined
+          ? getPremiumImpliedVolatility(contractName, quote, spot, block.timestamp, rate)
+          : undefined,
+      ),
+    [contractName, quotes, spot, block, rate],
+  );
+
+  return { data: impliedVolatilities, spot, isLoading: isLoading || block === undefined };
+};
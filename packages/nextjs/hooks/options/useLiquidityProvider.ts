@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { useAccount } from "wagmi";
+import {
+  useDeployedContractInfo,
+  useScaffoldEventHistory,
+  useScaffoldReadContract,
+  useScaffoldWriteContract,
+} from "~~/hooks/scaffold-eth";
+import { useStableApproval } from "~~/hooks/stable/useStableApproval";
+import { LiquidityEvent, PoolState } from "~~/utils/liquidity";
+import { notification } from "~~/utils/scaffold-eth";
+
+export type LiquidityStep = "approving" | "depositing" | "withdrawing";
+
+/**
+ * The connected account's position in the Options liquidity pool: its shares, the pool state they're valued against,
+ * its stablecoin balance and allowance, its `ProvidedLiquidity` / `WithdrewLiquidity` events, and the actions to
+ * deposit (approving exactly the amount first) and withdraw
+ */
+export const useLiquidityProvider = () => {
+  const [pendingStep, setPendingStep] = useState<Exclude<LiquidityStep, "approving">>();
+
+  const { address } = useAccount();
+  const { data: optionsContract } = useDeployedContractInfo({ contractName: "Options" });
+  const { stableAddress, balance, allowance, symbol, approveIfNeeded, isApproving, refetch } =
+    useStableApproval("Options");
+
+  const { data: shares } = useScaffoldReadContract({
+    contractName: "Options",
+    functionName: "lpShares",
+    args: [address],
+    query: { enabled: !!address },
+  });
+  const { data: totalLpShares } = useScaffoldReadContract({ contractName: "Options", functionName: "totalLpShares" });
+  const { data: totalLiquidity } = useScaffoldReadContract({ contractName: "Options", functionName: "totalLiquidity" });
+  const { data: lockedCollateral } = useScaffoldReadContract({
+    contractName: "Options",
+    functionName: "lockedCollateral",
+  });
+  const pool: PoolState | undefined =
+    totalLpShares !== undefined && totalLiquidity !== undefined && lockedCollateral !== undefined
+      ? { totalLpShares, totalLiquidity, lockedCollateral }
+      : undefined;
+
+  const { data: deposits, isLoading: isLoadingDeposits } = useScaffoldEventHistory({
+    contractName: "Options",
+    eventName: "ProvidedLiquidity",
+    filters: { provider: address },
+    watch: true,
+    enabled: !!address,
+  });
+  const { data: withdrawals, isLoading: isLoadingWithdrawals } = useScaffoldEventHistory({
+    contractName: "Options",
+    eventName: "WithdrewLiquidity",
+    filters: { provider: address },
+    watch: true,
+    enabled: !!address,
+  });
+
+  const events: LiquidityEvent[] = [];
+  for (const { args, blockNumber, logIndex, transactionHash } of deposits ?? []) {
+    if (args.amount === undefined || args.shares === undefined) continue;
+    events.push({
+      kind: "deposit",
+      stable: args.amount,
+      shares: args.shares,
+      blockNumber,
+      logIndex,
+      transactionHash,
+    });
+  }
+  for (const { args, blockNumber, logIndex, transactionHash } of withdrawals ?? []) {
+    if (args.shareAmount === undefined || args.stableOut === undefined) continue;
+    events.push({
+      kind: "withdrawal",
+      stable: args.stableOut,
+      shares: args.shareAmount,
+      blockNumber,
+      logIndex,
+      transactionHash,
+    });
+  }
+
+  const { writeContractAsync: writeOptions } = useScaffoldWriteContract({ contractName: "Options" });
+
+  /**
+   * @returns whether the deposit went through
+   */
+  const deposit = async (amount: bigint) => {
+    if (!optionsContract || !stableAddress) {
+      notification.error("Target Contract is not deployed, did you forget to run `yarn deploy`?");
+      return false;
+    }
+
+    try {
+      if (!(await approveIfNeeded(amount))) return false;
+
+      setPendingStep("depositing");
+      const hash = await writeOptions({ functionName: "provideLiquidity", args: [amount] });
+      return !!hash;
+    } catch (e) {
+      console.error("⚡️ ~ file: useLiquidityProvider.ts ~ deposit ~ error", e);
+      return false;
+    } finally {
+      setPendingStep(undefined);
+      await refetch();
+    }
+  };
+
+  /**
+   * @returns whether the withdrawal went through
+   */
+  const withdraw = async (shareAmount: bigint) => {
+    try {
+      setPendingStep("withdrawing");
+      const hash = await writeOptions({ functionName: "withdrawLiquidity", args: [shareAmount] });
+      return !!hash;
+    } catch (e) {
+      console.error("⚡️ ~ file: useLiquidityProvider.ts ~ withdraw ~ error", e);
+      return false;
+    } finally {
+      setPendingStep(undefined);
+      await refetch();
+    }
+  };
+
+  const step: LiquidityStep | undefined = isApproving ? "approving" : pendingStep;
+
+  return {
+    shares,
+    pool,
+    balance,
+    allowance,
+    symbol,
+    events,
+    isLoadingEvents: isLoadingDeposits || isLoadingWithdrawals,
+    deposit,
+    withdraw,
+    step,
+  };
+};
@@ -0,0 +1,56 @@
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { Collateral, OptionMarketName } from "~~/utils/options";
+
+/**
+ * Unlocked collateral of an option market's pool, the liquidity new buys can lock
+ * @param contractName - Options or PhysicallySettledOptions
+ */
+export const useOptionPool = (contractName: OptionMarketName) => {
+  const isOptions = contractName === "Options";
+
+  const { data: totalLiquidity } = useScaffoldReadContract({
+    contractName: "Options",
+    functionName: "totalLiquidity",
+    query: { enabled: isOptions },
+  });
+  const { data: lockedCollateral } = useScaffoldReadContract({
+    contractName: "Options",
+    functionName: "lockedCollateral",
+    query: { enabled: isOptions },
+  });
+  const { data: totalStableCollateral } = useScaffoldReadContract({
+    contractName: "PhysicallySettledOptions",
+    functionName: "totalStableCollateral",
+    query: { enabled: !isOptions },
+  });
+  const { data: lockedStable } = useScaffoldReadContract({
+    contractName: "PhysicallySettledOptions",
+    functionName: "lockedStable",
+    query: { enabled: !isOptions },
+  });
+  const { data: totalEthCollateral } = useScaffoldReadContract({
+    contractName: "PhysicallySettledOptions",
+    functionName: "totalEthCollateral",
+    query: { enabled: !isOptions },
+  });
+  const { data: lockedEth } = useScaffoldReadContract({
+    contractName: "PhysicallySettledOptions",
+    functionName: "lockedEth",
+    query: { enabled: !isOptions },
+  });
+
+  let freeLiquidity: Collateral | undefined;
+  if (isOptions && totalLiquidity !== undefined && lockedCollateral !== undefined) {
+    freeLiquidity = { stable: totalLiquidity - lockedCollateral, eth: 0n };
+  } else if (
+    !isOptions &&
+    totalStableCollateral !== undefined &&
+    lockedStable !== undefined &&
+    totalEthCollateral !== undefined &&
+    lockedEth !== undefined
+  ) {
+    freeLiquidity = { stable: totalStableCollateral - lockedStable, eth: totalEthCollateral - lockedEth };
+  }
+
+  return { freeLiquidity };
+};
@@ -0,0 +1,57 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Abi, Address } from "viem";
+import { useBlockNumber, useReadContracts } from "wagmi";
+import { OptionStatus, OwnedOption, useOwnedOptions } from "~~/hooks/options/useOwnedOptions";
+import { useDeployedContractInfo, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { OptionMarketName } from "~~/utils/options";
+
+/**
+ * Status from the `options(id)` tuple. Options stores (…, isExercised, isActive) and
+ * PhysicallySettledOptions (…, state, isActive) with state ACTIVE, EXERCISED or EXPIRED.
+ */
+const getOnChainStatus = (market: OptionMarketName, option: readonly unknown[]): OptionStatus => {
+  const isActive = option[option.length - 1] as boolean;
+  if (isActive) return "active";
+  if (market === "Options") return (option[7] as boolean) ? "exercised" : "expired";
+  return Number(option[6]) === 1 ? "exercised" : "expired";
+};
+
+/**
+ * Options `buyer` bought from `market`, rebuilt from their `OptionPurchased` events and joined with the
+ * `options(id)` state, which is re-read every block
+ * @param market - Options or PhysicallySettledOptions
+ * @param buyer - address of the buyer, nothing is fetched while undefined
+ */
+export const useOptionPositions = (market: OptionMarketName, buyer?: Address) => {
+  const { targetNetwork } = useTargetNetwork();
+  const { options, isLoading } = useOwnedOptions(market, buyer);
+  const { data: marketContract } = useDeployedContractInfo({ contractName: market });
+
+  const { data: states, queryKey } = useReadContracts({
+    contracts: options.map(option => ({
+      address: marketContract?.address,
+      abi: marketContract?.abi as Abi,
+      functionName: "options",
+      args: [option.id],
+      chainId: targetNetwork.id,
+    })),
+    query: { enabled: !!marketContract && options.length > 0 },
+  });
+
+  const queryClient = useQueryClient();
+  const { data: blockNumber } = useBlockNumber({ watch: true, chainId: targetNetwork.id });
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [blockNumber]);
+
+  const positions: OwnedOption[] = options.map((option, i) => {
+    const state = states?.[i];
+    if (state?.status !== "success" || !Array.isArray(state.result)) return option;
+    // The contract is the source of truth, events can lag behind a block
+    return { ...option, status: getOnChainStatus(market, state.result) };
+  });
+
+  return { positions, isLoading };
+};
@@ -0,0 +1,52 @@
+import { useState } from "react";
+import { useDeployedContractInfo, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { useStableApproval } from "~~/hooks/stable/useStableApproval";
+import { OptionMarketName, OptionTerms, getPremium } from "~~/utils/options";
+import { notification } from "~~/utils/scaffold-eth";
+
+export type PurchaseStep = "approving" | "buying";
+
+/**
+ * Buys a single option: approves the market for exactly the premium when the current allowance doesn't cover it,
+ * then calls `buyOption`. Also exposes the buyer's stablecoin balance and allowance so a ticket can check them first.
+ * @param market - Options or PhysicallySettledOptions
+ */
+export const useOptionPurchase = (market: OptionMarketName) => {
+  const [isBuying, setIsBuying] = useState(false);
+
+  const { data: marketContract } = useDeployedContractInfo({ contractName: market });
+  const { stableAddress, balance, allowance, symbol, approveIfNeeded, isApproving, refetch } =
+    useStableApproval(market);
+  const { writeContractAsync: writeMarket } = useScaffoldWriteContract({ contractName: market });
+
+  /**
+   * @returns whether the option was bought
+   */
+  const buy = async ({ type, strike, amount }: OptionTerms, expiry: bigint) => {
+    if (!marketContract || !stableAddress) {
+      notification.error("Target Contract is not deployed, did you forget to run `yarn deploy`?");
+      return false;
+    }
+
+    try {
+      if (!(await approveIfNeeded(getPremium(market, strike, amount)))) return false;
+
+      setIsBuying(true);
+      const hash = await writeMarket({
+        functionName: "buyOption",
+        args: [type === "call" ? 0 : 1, strike, expiry, amount],
+      });
+      return !!hash;
+    } catch (e) {
+      console.error("⚡️ ~ file: useOptionPurchase.ts ~ buy ~ error", e);
+      return false;
+    } finally {
+      setIsBuying(false);
+      await refetch();
+    }
+  };
+
+  const step: PurchaseStep | undefined = isApproving ? "approving" : isBuying ? "buying" : undefined;
+
+  return { buy, step, balance, allowance, symbol };
+};
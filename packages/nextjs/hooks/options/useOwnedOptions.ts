@@ -0,0 +1,93 @@
+import { Address } from "viem";
+import { useScaffoldEventHistory } from "~~/hooks/scaffold-eth";
+import { OptionMarketName, OptionType } from "~~/utils/options";
+
+export type OptionStatus = "active" | "exercised" | "expired";
+
+export type OwnedOption = {
+  market: OptionMarketName;
+  id: bigint;
+  buyer: Address;
+  type: OptionType;
+  strike: bigint;
+  expiry: bigint;
+  amount: bigint;
+  premium: bigint;
+  status: OptionStatus;
+};
+
+/**
+ * Options sold by `market`, rebuilt from `OptionPurchased` events, optionally filtered by the indexed buyer,
+ * with their status from the `OptionExercised` and `OptionExpiredWorthless` events
+ * @param market - Options or PhysicallySettledOptions
+ * @param config.buyer - only the options of this buyer (default: every buyer's)
+ * @param config.enabled - set this to false to fetch nothing (default: true)
+ */
+export const useMarketOptions = (
+  market: OptionMarketName,
+  { buyer, enabled = true }: { buyer?: Address; enabled?: boolean } = {},
+) => {
+  const { data: purchases, isLoading: isLoadingPurchases } = useScaffoldEventHistory({
+    contractName: market,
+    eventName: "OptionPurchased",
+    filters: buyer ? { buyer } : undefined,
+    watch: true,
+    enabled,
+  });
+  const { data: exercises, isLoading: isLoadingExercises } = useScaffoldEventHistory({
+    contractName: market,
+    eventName: "OptionExercised",
+    watch: true,
+    enabled,
+  });
+  const { data: expiries, isLoading: isLoadingExpiries } = useScaffoldEventHistory({
+    contractName: market,
+    eventName: "OptionExpiredWorthless",
+    watch: true,
+    enabled,
+  });
+
+  const exercised = new Set(exercises?.map(event => event.args.optionId));
+  const expired = new Set(expiries?.map(event => event.args.optionId));
+
+  const options: OwnedOption[] = [];
+  for (const { args } of purchases ?? []) {
+    // Options names the type field `optType`, PhysicallySettledOptions `optionType`
+    const optionType = "optType" in args ? args.optType : "optionType" in args ? args.optionType : undefined;
+    const { optionId, buyer: optionBuyer, strike, expiry, amount, premium } = args;
+    if (
+      optionId === undefined ||
+      optionBuyer === undefined ||
+      optionType === undefined ||
+      strike === undefined ||
+      expiry === undefined ||
+      amount === undefined ||
+      premium === undefined
+    ) {
+      continue;
+    }
+    options.push({
+      market,
+      id: optionId,
+      buyer: optionBuyer,
+      type: optionType === 0 ? "call" : "put",
+      strike,
+      expiry,
+      amount,
+      premium,
+      status: exercised.has(optionId) ? "exercised" : expired.has(optionId) ? "expired" : "active",
+    });
+  }
+  // Events come newest first
+  options.sort((a, b) => Number(a.id - b.id));
+
+  return { options, isLoading: isLoadingPurchases || isLoadingExercises || isLoadingExpiries };
+};
+
+/**
+ * Options `buyer` bought from `market`
+ * @param market - Options or PhysicallySettledOptions
+ * @param buyer - address of the buyer, nothing is fetched while undefined
+ */
+export const useOwnedOptions = (market: OptionMarketName, buyer?: Address) =>
+  useMarketOptions(market, { buyer, enabled: !!buyer });
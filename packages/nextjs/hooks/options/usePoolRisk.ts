@@ -0,0 +1,61 @@
+import { useEffect, useRef, useState } from "react";
+import { PoolRiskInputs, PoolRiskResult } from "~~/utils/poolRisk";
+import type { PoolRiskRequest, PoolRiskResponse } from "~~/utils/poolRisk/poolRisk.worker";
+
+/**
+ * Monte Carlo risk of an option pool, simulated in a Web Worker so the page stays responsive.
+ * The simulation reruns whenever the options, price, volatility, liquidity or path count change.
+ * @param inputs - what to simulate, nothing runs while undefined
+ */
+export const usePoolRisk = (inputs?: PoolRiskInputs) => {
+  const [result, setResult] = useState<PoolRiskResult>();
+  const [error, setError] = useState<string>();
+  const [isRunning, setIsRunning] = useState(false);
+  const workerRef = useRef<Worker>();
+  const requestIdRef = useRef(0);
+  const inputsRef = useRef(inputs);
+  inputsRef.current = inputs;
+
+  useEffect(() => {
+    const worker = new Worker(new URL("../../utils/poolRisk/poolRisk.worker.ts", import.meta.url));
+    worker.onmessage = ({ data }: MessageEvent<PoolRiskResponse>) => {
+      // A newer request is on its way
+      if (data.id !== requestIdRef.current) return;
+      setIsRunning(false);
+      if ("error" in data) {
+        setError(data.error);
+        return;
+      }
+      setError(undefined);
+      setResult(data.result);
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = undefined;
+    };
+  }, []);
+
+  // Block timestamps move on every block, only rerun when the simulated book itself changes
+  const key = inputs
+    ? [
+        inputs.spot,
+        inputs.volatility,
+        inputs.liquidity,
+        inputs.paths,
+        inputs.drift,
+        inputs.seed,
+        ...inputs.options.map(option => `${option.type}-${option.strike}-${option.amount}-${option.expiry}`),
+      ].join(",")
+    : undefined;
+
+  useEffect(() => {
+    const current = inputsRef.current;
+    if (!key || !current || !workerRef.current) return;
+    const request: PoolRiskRequest = { id: ++requestIdRef.current, inputs: current };
+    setIsRunning(true);
+    workerRef.current.postMessage(request);
+  }, [key]);
+
+  return { result, error, isRunning };
+};
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { Abi } from "viem";
+import { useAccount, useWriteContract } from "wagmi";
+import { useDeployedContractInfo, useTargetNetwork, useTransactor } from "~~/hooks/scaffold-eth";
+import { useStableApproval } from "~~/hooks/stable/useStableApproval";
+import { OptionMarketName, StrategyLeg, getPremium } from "~~/utils/options";
+import { notification } from "~~/utils/scaffold-eth";
+
+export type LegStatus = "idle" | "pending" | "confirmed" | "failed" | "skipped";
+
+/**
+ * Buys the legs of a strategy one `buyOption` transaction at a time, after approving the stablecoin for their
+ * premium. A failed leg stops the sequence, legs already bought stay confirmed and `submit` can be called again
+ * to retry only the ones that are not.
+ * @param market - Options or PhysicallySettledOptions
+ */
+export const useStrategySubmission = (market: OptionMarketName) => {
+  const [approvalStatus, setApprovalStatus] = useState<LegStatus>("idle");
+  const [legStatuses, setLegStatuses] = useState<LegStatus[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Every leg is bought at the expiry of the first submit, until `reset`
+  const [submittedExpiry, setSubmittedExpiry] = useState<bigint>();
+
+  const { chain: accountChain } = useAccount();
+  const { targetNetwork } = useTargetNetwork();
+  const { data: marketContract } = useDeployedContractInfo({ contractName: market });
+  const { stableAddress, approveIfNeeded } = useStableApproval(market);
+  const { writeContractAsync } = useWriteContract();
+  const writeTx = useTransactor();
+
+  const reset = () => {
+    setApprovalStatus("idle");
+    setLegStatuses([]);
+    setSubmittedExpiry(undefined);
+  };
+
+  const submit = async (legs: StrategyLeg[], expiry: bigint) => {
+    if (!marketContract || !stableAddress) {
+      notification.error("Target Contract is not deployed, did you forget to run `yarn deploy`?");
+      return;
+    }
+    if (!accountChain?.id) {
+      notification.error("Please connect your wallet");
+      return;
+    }
+    if (accountChain.id !== targetNetwork.id) {
+      notification.error(`Wallet is connected to the wrong network. Please switch to ${targetNetwork.name}`);
+      return;
+    }
+
+    const legExpiry = submittedExpiry ?? expiry;
+    setSubmittedExpiry(legExpiry);
+    // Keep what a previous attempt already bought
+    const statuses = legs.map((_, i): LegStatus => (legStatuses[i] === "confirmed" ? "confirmed" : "idle"));
+    setLegStatuses(statuses);
+    const update = (i: number, status: LegStatus) => {
+      statuses[i] = status;
+      setLegStatuses([...statuses]);
+    };
+
+    setIsSubmitting(true);
+    try {
+      const remainingPremium = legs.reduce(
+        (total, leg, i) => (statuses[i] === "confirmed" ? total : total + getPremium(market, leg.strike, leg.amount)),
+        0n,
+      );
+      setApprovalStatus("pending");
+      try {
+        if (!(await approveIfNeeded(remainingPremium))) throw new Error("Approval not sent");
+        setApprovalStatus("confirmed");
+      } catch (e) {
+        console.error("⚡️ ~ file: useStrategySubmission.ts ~ approve ~ error", e);
+        setApprovalStatus("failed");
+        return;
+      }
+
+      for (let i = 0; i < legs.length; i++) {
+        if (statuses[i] === "confirmed") continue;
+        const { type, strike, amount } = legs[i];
+        update(i, "pending");
+        try {
+          const hash = await writeTx(() =>
+            writeContractAsync({
+              address: marketContract.address,
+              abi: marketContract.abi as Abi,
+              functionName: "buyOption",
+              args: [type === "call" ? 0 : 1, strike, legExpiry, amount],
+            }),
+          );
+          if (!hash) throw new Error("Transaction not sent");
+          update(i, "confirmed");
+        } catch (e) {
+          console.error(`⚡️ ~ file: useStrategySubmission.ts ~ leg ${i + 1} ~ error`, e);
+          update(i, "failed");
+          // Later legs were never sent
+          for (let j = i + 1; j < legs.length; j++) {
+            if (statuses[j] !== "confirmed") update(j, "skipped");
+          }
+          return;
+        }
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const confirmedCount = legStatuses.filter(status => status === "confirmed").length;
+
+  return {
+    submit,
+    reset,
+    isSubmitting,
+    approvalStatus,
+    legStatuses,
+    submittedExpiry,
+    isPartiallyFilled: confirmedCount > 0 && confirmedCount < legStatuses.length,
+    isComplete: legStatuses.length > 0 && confirmedCount === legStatuses.length,
+  };
+};
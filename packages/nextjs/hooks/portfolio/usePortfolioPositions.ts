@@ -0,0 +1,61 @@
+import { Address } from "viem";
+import { useFuturesParams } from "~~/hooks/futures/useFuturesParams";
+import { useOwnedOptions } from "~~/hooks/options/useOwnedOptions";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { FUTURES_SIDES } from "~~/utils/futures";
+import { fromWad } from "~~/utils/options";
+import { PayoffPosition } from "~~/utils/payoff";
+
+export type PortfolioPosition = PayoffPosition & { key: string; label: string };
+
+/**
+ * Every open position of `trader` across products: active Options and PhysicallySettledOptions options
+ * and the trader's Futures position
+ */
+export const usePortfolioPositions = (trader?: Address) => {
+  const { options, isLoading: isLoadingOptions } = useOwnedOptions("Options", trader);
+  const { options: physicalOptions, isLoading: isLoadingPhysicalOptions } = useOwnedOptions(
+    "PhysicallySettledOptions",
+    trader,
+  );
+  const { params } = useFuturesParams();
+  const { data: futuresPosition } = useScaffoldReadContract({
+    contractName: "Futures",
+    functionName: "positions",
+    args: [trader],
+    query: { enabled: !!trader },
+  });
+
+  const positions: PortfolioPosition[] = [...options, ...physicalOptions]
+    .filter(option => option.status === "active")
+    .map(({ market, id, type, strike, expiry, amount, premium }) => ({
+      kind: "option",
+      key: `${market}-${id}`,
+      label: `${market === "Options" ? "Cash" : "Physical"} ${type} #${id} K ${fromWad(strike)} × ${fromWad(amount)}`,
+      market,
+      type,
+      strike,
+      expiry,
+      amount,
+      premium,
+    }));
+
+  if (futuresPosition && params) {
+    const [posType, margin, entryPrice, leverage, isOpen] = futuresPosition;
+    const side = FUTURES_SIDES[posType];
+    if (isOpen && side) {
+      positions.push({
+        kind: "futures",
+        key: "Futures",
+        label: `Futures ${leverage}x ${side} @ ${fromWad(entryPrice).toFixed(2)}`,
+        side,
+        margin,
+        leverage,
+        entryPrice,
+        maintenanceMarginRatio: params.maintenanceMarginRatio,
+      });
+    }
+  }
+
+  return { positions, isLoading: isLoadingOptions || isLoadingPhysicalOptions };
+};
@@ -2,19 +2,30 @@ import { useEffect, useState } from "react";
 import { useTargetNetwork } from "./useTargetNetwork";
 import { Address, Log } from "viem";
 import { usePublicClient } from "wagmi";
+import { GenericContract, contracts } from "~~/utils/scaffold-eth/contract";
 
-export const useContractLogs = (address: Address) => {
+/**
+ * Reads and watches all logs of an address, starting from its deployment block when it is one of our contracts
+ * @param address - the address to read logs for
+ * @param fromBlock - the block number to start reading logs from (default: the deployment block, 0n if unknown)
+ */
+export const useContractLogs = (address: Address, fromBlock?: bigint) => {
   const [logs, setLogs] = useState<Log[]>([]);
   const { targetNetwork } = useTargetNetwork();
   const client = usePublicClient({ chainId: targetNetwork.id });
 
+  const deployedOnBlock = Object.values<GenericContract>(contracts?.[targetNetwork.id] ?? {}).find(
+    contract => contract.address.toLowerCase() === address.toLowerCase(),
+  )?.deployedOnBlock;
+  const startBlock = fromBlock ?? BigInt(deployedOnBlock ?? 0);
+
   useEffect(() => {
     const fetchLogs = async () => {
       if (!client) return console.error("Client not found");
       try {
         const existingLogs = await client.getLogs({
           address: address,
-          fromBlock: 0n,
+          fromBlock: startBlock,
           toBlock: "latest",
         });
         setLogs(existingLogs);
@@ -34,7 +45,7 @@ export const useContractLogs = (address: Address) => {
         setLogs(prevLogs => [...prevLogs, ...newLogs]);
       },
     });
-  }, [address, client]);
+  }, [address, client, startBlock]);
 
   return logs;
 };
@@ -10,6 +10,7 @@ import { replacer } from "~~/utils/scaffold-eth/common";
 import {
   ContractAbi,
   ContractName,
+  GenericContract,
   UseScaffoldEventHistoryConfig,
   UseScaffoldEventHistoryData,
 } from "~~/utils/scaffold-eth/contract";
@@ -57,7 +58,7 @@ const getEvents = async (
  * @param config - The config settings
  * @param config.contractName - deployed contract name
  * @param config.eventName - name of the event to listen for
- * @param config.fromBlock - the block number to start reading events from
+ * @param config.fromBlock - the block number to start reading events from (default: the contract's deployment block, 0n if unknown)
  * @param config.chainId - optional chainId that is configured with the scaffold project to make use for multi-chain interactions.
  * @param config.filters - filters to be applied to the event (parameterName: value)
  * @param config.blockData - if set to true it will return the block data for each event (default: false)
@@ -75,7 +76,7 @@ export const useScaffoldEventHistory = <
 >({
   contractName,
   eventName,
-  fromBlock,
+  fromBlock: fromBlockConfig,
   chainId,
   filters,
   blockData,
@@ -98,6 +99,10 @@ export const useScaffoldEventHistory = <
     chainId: selectedNetwork.id as AllowedChainIds,
   });
 
+  // Nothing can be emitted before the contract existed, so don't scan the chain from genesis
+  const deployedOnBlock = (deployedContractData as GenericContract | undefined)?.deployedOnBlock;
+  const fromBlock = fromBlockConfig ?? BigInt(deployedOnBlock ?? 0);
+
   const event =
     deployedContractData &&
     ((deployedContractData.abi as Abi).find(part => part.type === "event" && part.name === eventName) as AbiEvent);
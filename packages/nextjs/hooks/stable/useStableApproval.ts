@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { erc20Abi } from "viem";
+import { useAccount, useReadContract, useWriteContract } from "wagmi";
+import { useDeployedContractInfo, useScaffoldReadContract, useTransactor } from "~~/hooks/scaffold-eth";
+import { OptionMarketName } from "~~/utils/options";
+
+export type StableMarketName = OptionMarketName | "Futures";
+
+/**
+ * The connected account's balance of a market's stablecoin and its allowance to the market, with an action that
+ * approves exactly the amount a transaction is about to pull when the allowance doesn't cover it
+ * @param contractName - Options, PhysicallySettledOptions or Futures
+ */
+export const useStableApproval = (contractName: StableMarketName) => {
+  const [isApproving, setIsApproving] = useState(false);
+  const isFutures = contractName === "Futures";
+
+  const { address } = useAccount();
+  const { data: marketContract } = useDeployedContractInfo({ contractName });
+  // The option markets name their stablecoin `stable`, Futures `stableCoin`
+  const { data: optionsStable } = useScaffoldReadContract({
+    contractName: isFutures ? "Options" : contractName,
+    functionName: "stable",
+    query: { enabled: !isFutures },
+  });
+  const { data: futuresStable } = useScaffoldReadContract({
+    contractName: "Futures",
+    functionName: "stableCoin",
+    query: { enabled: isFutures },
+  });
+  const stableAddress = isFutures ? futuresStable : optionsStable;
+  const isReady = !!address && !!stableAddress && !!marketContract;
+
+  const { data: balance, refetch: refetchBalance } = useReadContract({
+    address: stableAddress,
+    abi: erc20Abi,
+    functionName: "balanceOf",
+    args: address ? [address] : undefined,
+    query: { enabled: isReady },
+  });
+  const { data: allowance, refetch: refetchAllowance } = useReadContract({
+    address: stableAddress,
+    abi: erc20Abi,
+    functionName: "allowance",
+    args: address && marketContract ? [address, marketContract.address] : undefined,
+    query: { enabled: isReady },
+  });
+  const { data: symbol } = useReadContract({
+    address: stableAddress,
+    abi: erc20Abi,
+    functionName: "symbol",
+    query: { enabled: !!stableAddress },
+  });
+
+  const { writeContractAsync } = useWriteContract();
+  const writeTx = useTransactor();
+
+  const refetch = () => Promise.all([refetchBalance(), refetchAllowance()]);
+
+  /**
+   * Throws when the approval fails, like the transactor
+   * @returns whether the allowance covers `amount`, false if the approval wasn't sent
+   */
+  const approveIfNeeded = async (amount: bigint) => {
+    if (!marketContract || !stableAddress) return false;
+    if (amount === 0n) return true;
+    const { data: currentAllowance } = await refetchAllowance();
+    if ((currentAllowance ?? allowance ?? 0n) >= amount) return true;
+
+    setIsApproving(true);
+    try {
+      const hash = await writeTx(() =>
+        writeContractAsync({
+          address: stableAddress,
+          abi: erc20Abi,
+          functionName: "approve",
+          args: [marketContract.address, amount],
+        }),
+      );
+      return !!hash;
+    } finally {
+      setIsApproving(false);
+      await refetchAllowance();
+    }
+  };
+
+  return { stableAddress, balance, allowance, symbol, approveIfNeeded, isApproving, refetch };
+};
@@ -0,0 +1,90 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useBlock, usePublicClient } from "wagmi";
+import { useScaffoldReadContract, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import {
+  DEFAULT_VOLATILITY_PERCENT,
+  PriceRound,
+  VOLATILITY_WINDOWS,
+  aggregatorV3Abi,
+  fetchRoundHistory,
+  getRealizedVolatility,
+  pickVolatility,
+} from "~~/utils/volatility";
+
+// Rounds read so far, per chain and feed, shared by every component using the hook
+const roundCaches = new Map<string, Map<bigint, PriceRound>>();
+
+const toRound = ([roundId, answer, , updatedAt]: readonly [bigint, bigint, bigint, bigint, bigint]): PriceRound => ({
+  roundId,
+  answer,
+  updatedAt,
+});
+
+/**
+ * Realized volatility of the price feed the markets read, over each of VOLATILITY_WINDOWS.
+ * On localhost the MockPriceFeed records a round on every `setPrice`, e.g. from the `simulate:price` task.
+ */
+export const useHistoricalVolatility = () => {
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  // Chain time rather than the wall clock, local chains are often fast-forwarded
+  const { data: block } = useBlock({ chainId: targetNetwork.id, watch: true });
+  // All markets read the same feed
+  const { data: feed } = useScaffoldReadContract({ contractName: "Options", functionName: "priceFeed" });
+
+  const longestWindow = Math.max(...VOLATILITY_WINDOWS.map(window => window.seconds));
+  const now = block?.timestamp;
+
+  const {
+    data: rounds,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["priceFeedHistory", { chainId: targetNetwork.id, feed, blockNumber: block?.number?.toString() }],
+    queryFn: async () => {
+      if (!publicClient || !feed || now === undefined) return [];
+      const cacheKey = `${targetNetwork.id}:${feed}`;
+      const cache = roundCaches.get(cacheKey) ?? new Map<bigint, PriceRound>();
+      roundCaches.set(cacheKey, cache);
+
+      const latest = toRound(
+        await publicClient.readContract({
+          address: feed,
+          abi: aggregatorV3Abi,
+          functionName: "latestRoundData",
+        }),
+      );
+      return fetchRoundHistory(
+        async roundId =>
+          toRound(
+            await publicClient.readContract({
+              address: feed,
+              abi: aggregatorV3Abi,
+              functionName: "getRoundData",
+              args: [roundId],
+            }),
+          ),
+        latest,
+        now - BigInt(longestWindow),
+        { cache },
+      );
+    },
+    enabled: !!publicClient && !!feed && now !== undefined,
+    // Keep the last history while the next block's rounds load
+    placeholderData: keepPreviousData,
+  });
+
+  const estimates =
+    rounds && now !== undefined ? VOLATILITY_WINDOWS.map(window => getRealizedVolatility(rounds, now, window)) : [];
+
+  return { estimates, volatility: pickVolatility(estimates), rounds, isLoading, error };
+};
+
+/**
+ * Volatility to price and chart with, in percent: the realized volatility of the feed when it has enough history,
+ * DEFAULT_VOLATILITY_PERCENT otherwise
+ */
+export const useDefaultVolatilityPercent = () => {
+  const { volatility } = useHistoricalVolatility();
+  return volatility !== undefined ? Math.round(volatility * 1000) / 10 : DEFAULT_VOLATILITY_PERCENT;
+};
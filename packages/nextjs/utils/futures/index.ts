@@ -0,0 +1,3 @@
+export * from "./position";
+export * from "./margin";
+export * from "./order";
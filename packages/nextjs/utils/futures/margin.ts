@@ -0,0 +1,84 @@
+import {
+  FuturesPosition,
+  FuturesSide,
+  getClosePayout,
+  getLiquidationPrice,
+  getMaintenanceMargin,
+  getPositionValue,
+  isLiquidatable,
+} from "./position";
+
+/**
+ * Order ticket arithmetic of `openPosition`, with the fee and risk parameters read from the contract
+ */
+
+export type FuturesParams = {
+  tradingFeeBps: bigint;
+  // MAINTENANCE_MARGIN_RATIO, in percent of the margin
+  maintenanceMarginRatio: bigint;
+};
+
+export type FuturesOrder = {
+  side: FuturesSide;
+  // `_margin`, what the trader transfers in
+  deposit: bigint;
+  leverage: bigint;
+};
+
+export type FuturesOrderQuote = {
+  fee: bigint;
+  // The position `openPosition` would store at `entryPrice`
+  position: FuturesPosition;
+  // Post-fee margin times leverage, the exposure PnL is computed on
+  exposure: bigint;
+  maintenanceMargin: bigint;
+  liquidationPrice: bigint;
+};
+
+export const getTradingFee = (deposit: bigint, tradingFeeBps: bigint) => (deposit * tradingFeeBps) / 10000n;
+
+/**
+ * Fee, stored position and liquidation price of opening `order` at `entryPrice` (1e18 scaled)
+ */
+export const quoteFuturesOrder = (
+  { side, deposit, leverage }: FuturesOrder,
+  entryPrice: bigint,
+  { tradingFeeBps, maintenanceMarginRatio }: FuturesParams,
+): FuturesOrderQuote => {
+  const fee = getTradingFee(deposit, tradingFeeBps);
+  const position = { side, margin: deposit - fee, leverage, entryPrice };
+  return {
+    fee,
+    position,
+    exposure: position.margin * leverage,
+    maintenanceMargin: getMaintenanceMargin(position.margin, maintenanceMarginRatio),
+    liquidationPrice: getLiquidationPrice(position, maintenanceMarginRatio),
+  };
+};
+
+export type FuturesScenario = {
+  price: bigint;
+  // `getPositionValue` at `price`
+  pnl: bigint;
+  // What closing pays out, zero once liquidatable since a liquidated trader gets nothing back
+  payout: bigint;
+  isLiquidated: boolean;
+};
+
+/**
+ * PnL and payout of `position` at each of `prices`
+ */
+export const getFuturesScenarios = (
+  position: FuturesPosition,
+  prices: bigint[],
+  maintenanceMarginRatio: bigint,
+): FuturesScenario[] =>
+  prices.map(price => {
+    const isLiquidated = isLiquidatable(position, price, maintenanceMarginRatio);
+    return {
+      price,
+      pnl: getPositionValue(position, price),
+      payout: isLiquidated ? 0n : getClosePayout(position, price),
+      isLiquidated,
+    };
+  });
@@ -0,0 +1,38 @@
+import { FuturesOrder } from "./margin";
+
+/**
+ * Pre-flight checks of a Futures order, in the order `openPosition` runs its requires, so the terminal can explain
+ * a revert before the trader signs
+ */
+
+export type FuturesOrderIssue =
+  // One position per address: `positions` is keyed by the trader
+  | "positionOpen"
+  | "invalidLeverage"
+  | "noMargin"
+  // The contract's balance net of accumulated fees must cover the margin
+  | "noLiquidity"
+  | "insufficientBalance";
+
+export type FuturesAccountState = {
+  hasOpenPosition: boolean;
+  maxLeverage: bigint;
+  // `stableCoin.balanceOf(futures) - accumulatedFees`
+  availableLiquidity: bigint;
+  balance: bigint;
+};
+
+/**
+ * First reason `openPosition` would revert for `order`, undefined if it should go through
+ */
+export const getFuturesOrderIssue = (
+  { deposit, leverage }: FuturesOrder,
+  { hasOpenPosition, maxLeverage, availableLiquidity, balance }: FuturesAccountState,
+): FuturesOrderIssue | undefined => {
+  if (hasOpenPosition) return "positionOpen";
+  if (leverage <= 0n || leverage > maxLeverage) return "invalidLeverage";
+  if (deposit <= 0n) return "noMargin";
+  if (availableLiquidity < deposit) return "noLiquidity";
+  if (balance < deposit) return "insufficientBalance";
+  return undefined;
+};
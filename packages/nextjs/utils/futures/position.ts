@@ -0,0 +1,56 @@
+/**
+ * Off-chain copies of the Futures contract's position arithmetic, in bigint and in the contract's
+ * operation order. Prices are 1e18 scaled, margin is in the stablecoin's smallest unit.
+ */
+
+export type FuturesSide = "long" | "short";
+
+export type FuturesPosition = {
+  side: FuturesSide;
+  // Margin after the trading fee, as stored in `positions`
+  margin: bigint;
+  leverage: bigint;
+  entryPrice: bigint;
+};
+
+// `PositionType` in Futures
+export const FUTURES_SIDES: Record<number, FuturesSide | undefined> = { 1: "long", 2: "short" };
+
+/**
+ * `getPositionValue`: unrealized PnL of the position at `price`
+ */
+export const getPositionValue = ({ side, margin, leverage, entryPrice }: FuturesPosition, price: bigint) => {
+  // Solidity's signed division truncates toward zero, like bigint division
+  const leveragedDiff = ((price - entryPrice) * margin * leverage) / entryPrice;
+  return side === "long" ? leveragedDiff : -leveragedDiff;
+};
+
+export const getMaintenanceMargin = (margin: bigint, maintenanceMarginRatio: bigint) =>
+  (margin * maintenanceMarginRatio) / 100n;
+
+/**
+ * `checkLiquidation`: equity below the maintenance margin
+ */
+export const isLiquidatable = (position: FuturesPosition, price: bigint, maintenanceMarginRatio: bigint) =>
+  position.margin + getPositionValue(position, price) < getMaintenanceMargin(position.margin, maintenanceMarginRatio);
+
+/**
+ * Price at which the position's equity reaches the maintenance margin, a long is liquidatable below it and
+ * a short above it. Exact up to the contract's rounding, which moves it by less than a wei of price.
+ */
+export const getLiquidationPrice = (position: FuturesPosition, maintenanceMarginRatio: bigint) => {
+  const { side, margin, leverage, entryPrice } = position;
+  // Loss the position can take before equity hits the maintenance margin
+  const buffer = margin - getMaintenanceMargin(margin, maintenanceMarginRatio);
+  const priceMove = (buffer * entryPrice) / (margin * leverage);
+  if (side === "short") return entryPrice + priceMove;
+  return priceMove >= entryPrice ? 0n : entryPrice - priceMove;
+};
+
+/**
+ * What `closePosition` pays out at `price`: margin plus PnL, floored at zero
+ */
+export const getClosePayout = (position: FuturesPosition, price: bigint) => {
+  const total = position.margin + getPositionValue(position, price);
+  return total > 0n ? total : 0n;
+};
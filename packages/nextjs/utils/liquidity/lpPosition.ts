@@ -0,0 +1,132 @@
+/**
+ * Share accounting of the Options liquidity pool, mirroring `provideLiquidity` and `withdrawLiquidity` including
+ * their rounding, so the dashboard can quote exact amounts before a transaction is sent.
+ */
+
+const ONE = 10n ** 18n;
+
+export type PoolState = {
+  totalLiquidity: bigint;
+  lockedCollateral: bigint;
+  totalLpShares: bigint;
+};
+
+export type LiquidityEventKind = "deposit" | "withdrawal";
+
+export type LiquidityEvent = {
+  kind: LiquidityEventKind;
+  // Stablecoins deposited or received
+  stable: bigint;
+  shares: bigint;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash?: string;
+};
+
+export type LiquidityHistoryEntry = LiquidityEvent & {
+  // Deposits paid for the withdrawn shares, on average cost
+  costBasis?: bigint;
+  realizedPnl?: bigint;
+  realizedReturn?: number;
+};
+
+export type LiquidityHistory = {
+  entries: LiquidityHistoryEntry[];
+  deposited: bigint;
+  withdrawn: bigint;
+  // Cost of the shares still held
+  costBasis: bigint;
+  realizedPnl: bigint;
+};
+
+/**
+ * Shares `provideLiquidity(amount)` mints, one per stablecoin for the first deposit
+ */
+export const getSharesForDeposit = (amount: bigint, { totalLiquidity, totalLpShares }: PoolState) =>
+  totalLpShares === 0n ? amount : (amount * totalLpShares) / totalLiquidity;
+
+/**
+ * Fewest stablecoins to deposit for at least `shares` new shares
+ */
+export const getDepositForShares = (shares: bigint, { totalLiquidity, totalLpShares }: PoolState) =>
+  totalLpShares === 0n ? shares : (shares * totalLiquidity + totalLpShares - 1n) / totalLpShares;
+
+/**
+ * Stablecoins `withdrawLiquidity(shares)` pays out, rounded twice like the contract does
+ */
+export const getShareValue = (shares: bigint, { totalLiquidity, totalLpShares }: PoolState) => {
+  if (totalLpShares === 0n) return 0n;
+  const fraction = (shares * ONE) / totalLpShares;
+  return (fraction * totalLiquidity) / ONE;
+};
+
+/**
+ * Fewest shares that pay out at least `amount`, which can be more than the provider holds
+ */
+export const getSharesForWithdrawal = (amount: bigint, { totalLiquidity, totalLpShares }: PoolState) => {
+  if (totalLiquidity === 0n) return 0n;
+  // Smallest fraction, then smallest share amount, that still round down to at least `amount`
+  const minFraction = (amount * ONE + totalLiquidity - 1n) / totalLiquidity;
+  return (minFraction * totalLpShares + ONE - 1n) / ONE;
+};
+
+export const getUnlockedLiquidity = ({ totalLiquidity, lockedCollateral }: PoolState) =>
+  totalLiquidity - lockedCollateral;
+
+/**
+ * Share of the pool locked as collateral for sold options, between 0 and 1
+ */
+export const getUtilization = ({ totalLiquidity, lockedCollateral }: PoolState) =>
+  totalLiquidity === 0n ? 0 : Number((lockedCollateral * 10n ** 6n) / totalLiquidity) / 1e6;
+
+/**
+ * Most of `shares` that can be withdrawn right now: `withdrawLiquidity` reverts when the payout exceeds the
+ * unlocked liquidity
+ */
+export const getWithdrawableShares = (shares: bigint, pool: PoolState) => {
+  const { totalLiquidity, totalLpShares } = pool;
+  const unlocked = getUnlockedLiquidity(pool);
+  if (getShareValue(shares, pool) <= unlocked) return shares;
+  // Largest fraction, then largest share amount, that still round down to at most the unlocked liquidity
+  const maxFraction = ((unlocked + 1n) * ONE - 1n) / totalLiquidity;
+  return ((maxFraction + 1n) * totalLpShares - 1n) / ONE;
+};
+
+/**
+ * Orders a provider's deposits and withdrawals and realizes each withdrawal against the average cost of the shares
+ * it burned
+ */
+export const getLiquidityHistory = (events: LiquidityEvent[]): LiquidityHistory => {
+  const sorted = [...events].sort((a, b) =>
+    a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : Number(a.blockNumber - b.blockNumber),
+  );
+
+  let shares = 0n;
+  let costBasis = 0n;
+  let deposited = 0n;
+  let withdrawn = 0n;
+  let realizedPnl = 0n;
+  const entries = sorted.map((event): LiquidityHistoryEntry => {
+    if (event.kind === "deposit") {
+      shares += event.shares;
+      costBasis += event.stable;
+      deposited += event.stable;
+      return event;
+    }
+
+    const cost = shares === 0n ? 0n : (costBasis * event.shares) / shares;
+    const pnl = event.stable - cost;
+    shares -= event.shares;
+    costBasis -= cost;
+    withdrawn += event.stable;
+    realizedPnl += pnl;
+    return {
+      ...event,
+      costBasis: cost,
+      realizedPnl: pnl,
+      realizedReturn: cost === 0n ? undefined : Number(pnl) / Number(cost),
+    };
+  });
+
+  return { entries, deposited, withdrawn, costBasis, realizedPnl };
+};
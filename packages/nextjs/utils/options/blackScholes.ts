@@ -0,0 +1,206 @@
+/**
+ * Black-Scholes value and Greeks of European calls and puts on a non-dividend paying underlying.
+ *
+ * `blackScholes` works on plain numbers (prices in USD, volatility and rate as fractions, time in years).
+ * `blackScholesWad` takes and returns bigints in the contracts' 1e18 scaling, so values read from
+ * `getLatestPrice`, strikes and amounts can be passed in as they are.
+ *
+ * The Options contract is American style. Without dividends an American call is worth the same as a
+ * European one, an American put is worth slightly more than the value computed here.
+ */
+
+export type OptionType = "call" | "put";
+
+export type BlackScholesParams = {
+  type: OptionType;
+  spot: number;
+  strike: number;
+  // Annualized, e.g. 0.8 for 80%
+  volatility: number;
+  // Annualized risk-free rate, continuously compounded
+  rate: number;
+  // In years
+  timeToExpiry: number;
+};
+
+/**
+ * Value and sensitivities for one unit of the underlying:
+ * - vega per 1.00 (100 vol points) of volatility
+ * - theta per year, negative when the option loses value over time
+ * - rho per 1.00 (100%) of rate
+ */
+export type Greeks = {
+  value: number;
+  delta: number;
+  gamma: number;
+  vega: number;
+  theta: number;
+  rho: number;
+};
+
+export type BlackScholesWadParams = {
+  type: OptionType;
+  spot: bigint;
+  strike: bigint;
+  volatility: bigint;
+  rate?: bigint;
+  secondsToExpiry: bigint;
+  // Number of units, the Greeks are for the whole position (default: 1e18, one unit)
+  amount?: bigint;
+};
+
+export type WadGreeks = { [K in keyof Greeks]: bigint };
+
+export const WAD = 10n ** 18n;
+export const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+export const fromWad = (value: bigint) => Number(value) / 1e18;
+
+export const toWad = (value: number) => {
+  if (!Number.isFinite(value)) throw new Error(`Can't convert ${value} to 1e18 scaling`);
+  // Split off the integer part first so large values don't lose the fractional digits
+  const integer = Math.trunc(value);
+  return BigInt(integer) * WAD + BigInt(Math.round((value - integer) * 1e18));
+};
+
+const SQRT_2PI = Math.sqrt(2 * Math.PI);
+
+export const normalPdf = (x: number) => Math.exp((-x * x) / 2) / SQRT_2PI;
+
+/**
+ * Standard normal CDF, accurate to double precision (Hart 1968, as given by West 2005)
+ */
+export const normalCdf = (x: number) => {
+  const z = Math.abs(x);
+  let tail = 0;
+  if (z <= 37) {
+    const e = Math.exp((-z * z) / 2);
+    if (z < 7.07106781186547) {
+      let n = 3.52624965998911e-2 * z + 0.700383064443688;
+      n = n * z + 6.37396220353165;
+      n = n * z + 33.912866078383;
+      n = n * z + 112.079291497871;
+      n = n * z + 221.213596169931;
+      n = n * z + 220.206867912376;
+      let d = 8.83883476483184e-2 * z + 1.75566716318264;
+      d = d * z + 16.064177579207;
+      d = d * z + 86.7807322029461;
+      d = d * z + 296.564248779674;
+      d = d * z + 637.333633378831;
+      d = d * z + 793.826512519948;
+      d = d * z + 440.413735824752;
+      tail = (e * n) / d;
+    } else {
+      let f = z + 0.65;
+      f = z + 4 / f;
+      f = z + 3 / f;
+      f = z + 2 / f;
+      f = z + 1 / f;
+      tail = e / f / SQRT_2PI;
+    }
+  }
+  return x <= 0 ? tail : 1 - tail;
+};
+
+const validate = ({ spot, strike, volatility, timeToExpiry }: BlackScholesParams) => {
+  if (!(spot > 0)) throw new Error(`Spot must be positive, got ${spot}`);
+  if (!(strike > 0)) throw new Error(`Strike must be positive, got ${strike}`);
+  if (!(volatility >= 0)) throw new Error(`Volatility can't be negative, got ${volatility}`);
+  if (Number.isNaN(timeToExpiry)) throw new Error("Time to expiry is NaN");
+};
+
+/**
+ * At expiry, or with zero volatility, the option is worth its discounted forward intrinsic value
+ */
+const degenerateGreeks = ({ type, spot, strike, rate, timeToExpiry }: BlackScholesParams): Greeks => {
+  const time = Math.max(timeToExpiry, 0);
+  const discountedStrike = strike * Math.exp(-rate * time);
+  const inTheMoney = type === "call" ? spot > discountedStrike : spot < discountedStrike;
+  if (!inTheMoney) return { value: 0, delta: 0, gamma: 0, vega: 0, theta: 0, rho: 0 };
+
+  const sign = type === "call" ? 1 : -1;
+  return {
+    value: sign * (spot - discountedStrike),
+    delta: sign,
+    gamma: 0,
+    vega: 0,
+    theta: -sign * rate * discountedStrike,
+    rho: sign * time * discountedStrike,
+  };
+};
+
+export const blackScholes = (params: BlackScholesParams): Greeks => {
+  validate(params);
+  const { type, spot, strike, volatility, rate, timeToExpiry } = params;
+  if (timeToExpiry <= 0 || volatility === 0) return degenerateGreeks(params);
+
+  const sqrtTime = Math.sqrt(timeToExpiry);
+  const volSqrtTime = volatility * sqrtTime;
+  const d1 = (Math.log(spot / strike) + (rate + (volatility * volatility) / 2) * timeToExpiry) / volSqrtTime;
+  const d2 = d1 - volSqrtTime;
+  const discountedStrike = strike * Math.exp(-rate * timeToExpiry);
+  const pdfD1 = normalPdf(d1);
+
+  const gamma = pdfD1 / (spot * volSqrtTime);
+  const vega = spot * pdfD1 * sqrtTime;
+  const timeDecay = (-spot * pdfD1 * volatility) / (2 * sqrtTime);
+
+  if (type === "call") {
+    const cdfD1 = normalCdf(d1);
+    const cdfD2 = normalCdf(d2);
+    return {
+      value: spot * cdfD1 - discountedStrike * cdfD2,
+      delta: cdfD1,
+      gamma,
+      vega,
+      theta: timeDecay - rate * discountedStrike * cdfD2,
+      rho: timeToExpiry * discountedStrike * cdfD2,
+    };
+  }
+
+  const cdfMinusD1 = normalCdf(-d1);
+  const cdfMinusD2 = normalCdf(-d2);
+  return {
+    value: discountedStrike * cdfMinusD2 - spot * cdfMinusD1,
+    delta: -cdfMinusD1,
+    gamma,
+    vega,
+    theta: timeDecay + rate * discountedStrike * cdfMinusD2,
+    rho: -timeToExpiry * discountedStrike * cdfMinusD2,
+  };
+};
+
+export const blackScholesPrice = (params: BlackScholesParams) => blackScholes(params).value;
+
+/**
+ * Black-Scholes in the contracts' 1e18 scaling: spot and strike in USD, volatility and rate as fractions
+ * (0.8e18 for 80%), and `amount` units of the underlying. Every returned Greek is for the whole position.
+ */
+export const blackScholesWad = ({
+  type,
+  spot,
+  strike,
+  volatility,
+  rate = 0n,
+  secondsToExpiry,
+  amount = WAD,
+}: BlackScholesWadParams): WadGreeks => {
+  const greeks = blackScholes({
+    type,
+    spot: fromWad(spot),
+    strike: fromWad(strike),
+    volatility: fromWad(volatility),
+    rate: fromWad(rate),
+    timeToExpiry: Number(secondsToExpiry) / SECONDS_PER_YEAR,
+  });
+
+  const units = fromWad(amount);
+  return {
+    value: toWad(greeks.value * units),
+    delta: toWad(greeks.delta * units),
+    gamma: toWad(greeks.gamma * units),
+    vega: toWad(greeks.vega * units),
+    theta: toWad(greeks.theta * units),
+    rho: toWad(greeks.rho * units),
+  };
+};
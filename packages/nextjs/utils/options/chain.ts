@@ -0,0 +1,68 @@
+import { roundToStrike } from "./strategies";
+
+/**
+ * Strikes and expiries of the option chain. Neither market lists series, any strike and expiry can be bought,
+ * the chain only offers the usual grid: strikes on a fixed step around spot, expiring on Fridays at 08:00 UTC.
+ */
+
+export type ChainExpiry = {
+  expiry: bigint;
+  kind: "weekly" | "monthly";
+};
+
+export const DEFAULT_STRIKE_STEP = 100n * 10n ** 18n;
+
+const DAY = 86400;
+const EXPIRY_HOUR_UTC = 8;
+// Don't list an expiry that is about to pass, the buy would likely land after it
+const MIN_TIME_TO_EXPIRY = 3600;
+
+/**
+ * `count` strikes either side of spot rounded to `step`, ascending
+ */
+export const getChainStrikes = (spot: bigint, step: bigint = DEFAULT_STRIKE_STEP, count = 5) => {
+  const center = roundToStrike(spot, step);
+  return Array.from({ length: count * 2 + 1 }, (_, i) => center + BigInt(i - count) * step).filter(
+    strike => strike > 0n,
+  );
+};
+
+const fridayAt = (date: Date) => {
+  const friday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), EXPIRY_HOUR_UTC));
+  friday.setUTCDate(friday.getUTCDate() + ((5 - friday.getUTCDay() + 7) % 7));
+  return friday;
+};
+
+const lastFridayOfMonth = (year: number, month: number) => {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0, EXPIRY_HOUR_UTC));
+  lastDay.setUTCDate(lastDay.getUTCDate() - ((lastDay.getUTCDay() - 5 + 7) % 7));
+  return lastDay;
+};
+
+/**
+ * The next `weeklies` Fridays and the last Fridays of the next `monthlies` months after `now`, at 08:00 UTC
+ * @param now - unix timestamp, the latest block's on chains that are fast-forwarded
+ */
+export const getStandardExpiries = (now: bigint, weeklies = 3, monthlies = 2): ChainExpiry[] => {
+  const earliest = Number(now) + MIN_TIME_TO_EXPIRY;
+  const expiries = new Map<number, ChainExpiry["kind"]>();
+
+  let friday = fridayAt(new Date(earliest * 1000));
+  if (friday.getTime() / 1000 < earliest) friday = new Date(friday.getTime() + 7 * DAY * 1000);
+  for (let i = 0; i < weeklies; i++) {
+    expiries.set(friday.getTime() / 1000 + i * 7 * DAY, "weekly");
+  }
+
+  const start = new Date(earliest * 1000);
+  for (let month = start.getUTCMonth(), found = 0; found < monthlies; month++) {
+    const timestamp = lastFridayOfMonth(start.getUTCFullYear(), month).getTime() / 1000;
+    if (timestamp < earliest) continue;
+    // A weekly that falls on the last Friday is the monthly
+    expiries.set(timestamp, "monthly");
+    found++;
+  }
+
+  return [...expiries.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([timestamp, kind]) => ({ expiry: BigInt(timestamp), kind }));
+};
@@ -0,0 +1,82 @@
+import { OptionType } from "./blackScholes";
+import { ExerciseFlows, OptionMarketName, OptionTerms, getExerciseFlows, getExerciseValue } from "./quote";
+
+/**
+ * When each market lets a buyer exercise: Options is American and can be exercised up to and including its expiry,
+ * PhysicallySettledOptions only at or after it, until someone calls `expireOption`.
+ */
+
+export type ExerciseWindow =
+  // exerciseOption would go through now
+  | "open"
+  // PhysicallySettledOptions before expiry
+  | "notYet"
+  // Options after expiry, only expireOption is left
+  | "missed"
+  // Exercised or expired
+  | "closed";
+
+export type Moneyness = "ITM" | "ATM" | "OTM";
+
+// Within 0.5% of the strike counts as at the money
+const ATM_BAND = 0.005;
+
+/**
+ * Whether `exerciseOption` would pass the market's time checks in a block at `now`
+ */
+export const getExerciseWindow = (
+  market: OptionMarketName,
+  { expiry, isActive }: { expiry: bigint; isActive: boolean },
+  now: bigint,
+): ExerciseWindow => {
+  if (!isActive) return "closed";
+  if (market === "Options") return now <= expiry ? "open" : "missed";
+  return now >= expiry ? "open" : "notYet";
+};
+
+/**
+ * Moneyness of an option at `spot`, with `distance` how far spot is past the strike in the option's favor,
+ * e.g. 0.1 for a call struck 10% below spot
+ */
+export const getMoneyness = (type: OptionType, strike: bigint, spot: bigint) => {
+  const ratio = Number(spot) / Number(strike) - 1;
+  const distance = type === "call" ? ratio : -ratio;
+  const moneyness: Moneyness = Math.abs(ratio) <= ATM_BAND ? "ATM" : distance > 0 ? "ITM" : "OTM";
+  return { moneyness, distance };
+};
+
+export type ExerciseFunds = {
+  stableBalance: bigint;
+  // The market's stable allowance
+  allowance: bigint;
+  ethBalance: bigint;
+};
+
+export type ExercisePlan = ExerciseFlows & {
+  needsApproval: boolean;
+  isStableShort: boolean;
+  // Gas comes on top of the value sent
+  isEthShort: boolean;
+  // Signed gain of exercising at the feed price, negative out of the money
+  value: bigint;
+};
+
+/**
+ * What `exerciseOption` takes from the buyer and whether their funds cover it: for a PhysicallySettledOptions call
+ * an approval of exactly `strike * amount / 1e18` stable, for a put `amount` ETH sent as `msg.value`
+ */
+export const planExercise = (
+  market: OptionMarketName,
+  terms: OptionTerms,
+  price: bigint,
+  { stableBalance, allowance, ethBalance }: ExerciseFunds,
+): ExercisePlan => {
+  const flows = getExerciseFlows(market, terms, price);
+  return {
+    ...flows,
+    needsApproval: allowance < flows.stableFromBuyer,
+    isStableShort: stableBalance < flows.stableFromBuyer,
+    isEthShort: ethBalance < flows.ethFromBuyer,
+    value: getExerciseValue(market, terms, price),
+  };
+};
@@ -0,0 +1,110 @@
+import { BlackScholesParams, OptionType, SECONDS_PER_YEAR, blackScholes, fromWad } from "./blackScholes";
+import { OptionMarketName, getPremium } from "./quote";
+
+export type ImpliedVolatilityParams = Omit<BlackScholesParams, "volatility"> & {
+  // Option price for one unit of the underlying
+  price: number;
+};
+
+export type ImpliedVolatilitySolverOptions = {
+  // Absolute tolerance on the price
+  tolerance?: number;
+  maxIterations?: number;
+};
+
+export const MIN_IMPLIED_VOLATILITY = 1e-6;
+// 1000%, anything above is reported as unsolvable
+export const MAX_IMPLIED_VOLATILITY = 10;
+
+/**
+ * Volatility at which Black-Scholes returns `price`, or undefined when no volatility in
+ * [0, MAX_IMPLIED_VOLATILITY] does: the price is below intrinsic value, at or above the no-arbitrage
+ * upper bound (spot for a call, discounted strike for a put) or the option has already expired.
+ *
+ * Newton steps are taken while they stay inside a bracket that always contains the root, and the solver
+ * bisects whenever a step would leave it or vega is too small to divide by (deep ITM / OTM, near expiry).
+ * In-the-money options are solved through their out-of-the-money twin via put-call parity, whose price is
+ * pure time value and so much better conditioned.
+ */
+export const impliedVolatility = (
+  params: ImpliedVolatilityParams,
+  { tolerance = 1e-10, maxIterations = 100 }: ImpliedVolatilitySolverOptions = {},
+): number | undefined => {
+  const { spot, strike, rate, timeToExpiry } = params;
+  if (!(spot > 0) || !(strike > 0) || !(timeToExpiry > 0) || !Number.isFinite(params.price)) return undefined;
+
+  const discountedStrike = strike * Math.exp(-rate * timeToExpiry);
+  // Put-call parity: C - P = S - K * e^(-rT)
+  const parity = spot - discountedStrike;
+  let { type, price } = params;
+  if (type === "call" && parity > 0) {
+    type = "put";
+    price -= parity;
+  } else if (type === "put" && parity < 0) {
+    type = "call";
+    price += parity;
+  }
+
+  // `type` is now out of the money, so its lower bound is zero
+  const upperBound = type === "call" ? spot : discountedStrike;
+  if (price < -tolerance || price >= upperBound) return undefined;
+  if (price <= tolerance) return 0;
+
+  const priceAt = (volatility: number) => blackScholes({ type, spot, strike, rate, timeToExpiry, volatility });
+  let low = MIN_IMPLIED_VOLATILITY;
+  let high = MAX_IMPLIED_VOLATILITY;
+  if (priceAt(high).value < price) return undefined;
+  if (priceAt(low).value > price) return low;
+
+  // Manaster-Koehler starting point, the inflection point of the price in volatility
+  let volatility = Math.min(
+    Math.max(Math.sqrt((2 * Math.abs(Math.log(spot / strike) + rate * timeToExpiry)) / timeToExpiry), 0.1),
+    high,
+  );
+
+  for (let i = 0; i < maxIterations; i++) {
+    const { value, vega } = priceAt(volatility);
+    const error = value - price;
+    if (Math.abs(error) <= tolerance) return volatility;
+
+    // The price increases with volatility, so the sign of the error tells which side the root is on
+    if (error > 0) high = volatility;
+    else low = volatility;
+
+    const newtonStep = vega > 1e-12 ? volatility - error / vega : NaN;
+    volatility = newtonStep > low && newtonStep < high ? newtonStep : (low + high) / 2;
+    if (high - low < 1e-12) return volatility;
+  }
+  return volatility;
+};
+
+export type PremiumQuote = {
+  type: OptionType;
+  strike: bigint;
+  expiry: bigint;
+  amount: bigint;
+};
+
+/**
+ * Volatility implied by the premium `market` charges for an option, with spot from `getLatestPrice`
+ * and `now` the latest block timestamp. All inputs are in the contracts' 1e18 scaling.
+ */
+export const getPremiumImpliedVolatility = (
+  market: OptionMarketName,
+  { type, strike, expiry, amount }: PremiumQuote,
+  spot: bigint,
+  now: bigint,
+  rate = 0,
+) => {
+  if (amount <= 0n || strike <= 0n || spot <= 0n) return undefined;
+  const premium = getPremium(market, strike, amount);
+  return impliedVolatility({
+    type,
+    spot: fromWad(spot),
+    strike: fromWad(strike),
+    rate,
+    timeToExpiry: Number(expiry - now) / SECONDS_PER_YEAR,
+    // Premium per unit of the underlying
+    price: fromWad(premium) / fromWad(amount),
+  });
+};
@@ -0,0 +1,6 @@
+export * from "./blackScholes";
+export * from "./impliedVolatility";
+export * from "./quote";
+export * from "./strategies";
+export * from "./chain";
+export * from "./exercise";
@@ -0,0 +1,143 @@
+import { OptionType } from "./blackScholes";
+
+/**
+ * Off-chain copies of the contracts' pricing arithmetic. Everything is bigint and follows the
+ * Solidity operation order, so results match what the contracts charge, lock and pay to the wei.
+ */
+
+export type OptionMarketName = "Options" | "PhysicallySettledOptions";
+
+export const OPTION_MARKETS: OptionMarketName[] = ["Options", "PhysicallySettledOptions"];
+
+export const isOptionMarket = (contractName: string): contractName is OptionMarketName =>
+  (OPTION_MARKETS as string[]).includes(contractName);
+
+const ONE = 10n ** 18n;
+
+export type OptionTerms = {
+  type: OptionType;
+  strike: bigint;
+  amount: bigint;
+};
+
+// Collateral in the stablecoin's smallest unit and in wei
+export type Collateral = { stable: bigint; eth: bigint };
+
+/**
+ * What exercising moves between the buyer and the pool, seen from the buyer
+ */
+export type ExerciseFlows = {
+  stableToBuyer: bigint;
+  stableFromBuyer: bigint;
+  ethToBuyer: bigint;
+  ethFromBuyer: bigint;
+};
+
+export type OptionQuote = {
+  premium: bigint;
+  collateral: Collateral;
+  // Amount (1e18 scaled) the Options contract charges and pays out for, when it differs from the requested amount
+  truncatedAmount?: bigint;
+  // Whether the pool's free liquidity covers the collateral, undefined when no pool state was given
+  hasLiquidity?: boolean;
+};
+
+/**
+ * USD value of `amount` ETH at `strike`, 1e18 scaled like both
+ */
+export const getNotional = (strike: bigint, amount: bigint) => (strike * amount) / ONE;
+
+/**
+ * `normalizedAmount` in Options: whole units, with sizes below one unit counted as one
+ */
+export const getOptionsChargedUnits = (amount: bigint) => amount / ONE || 1n;
+
+/**
+ * Premium `buyOption` transfers from the buyer, in the stablecoin's smallest unit
+ */
+export const getPremium = (market: OptionMarketName, strike: bigint, amount: bigint) => {
+  if (market === "Options") {
+    // 2% of strike per whole unit
+    return (strike * getOptionsChargedUnits(amount) * 200n) / 10000n;
+  }
+  // 3% of notional
+  const notional = getNotional(strike, amount);
+  return (notional * 300n) / 10000n;
+};
+
+/**
+ * Collateral `buyOption` locks in the pool
+ */
+export const getCollateral = (market: OptionMarketName, { type, strike, amount }: OptionTerms): Collateral => {
+  if (market === "Options") {
+    // Not rescaled, so this is 1e18 times the USD notional
+    return { stable: strike * amount, eth: 0n };
+  }
+  if (type === "call") return { stable: 0n, eth: amount };
+  return { stable: getNotional(strike, amount), eth: 0n };
+};
+
+/**
+ * Transfers `exerciseOption` makes at feed price `price` (1e18 scaled)
+ */
+export const getExerciseFlows = (
+  market: OptionMarketName,
+  { type, strike, amount }: OptionTerms,
+  price: bigint,
+): ExerciseFlows => {
+  const flows = { stableToBuyer: 0n, stableFromBuyer: 0n, ethToBuyer: 0n, ethFromBuyer: 0n };
+
+  if (market === "PhysicallySettledOptions") {
+    // No price check, the buyer always trades at the strike
+    const notional = getNotional(strike, amount);
+    if (type === "call") return { ...flows, stableFromBuyer: notional, ethToBuyer: amount };
+    return { ...flows, stableToBuyer: notional, ethFromBuyer: amount };
+  }
+
+  let payoff = 0n;
+  if (type === "call" && price > strike) payoff = (price - strike) * getOptionsChargedUnits(amount);
+  else if (type === "put" && price < strike) payoff = (strike - price) * getOptionsChargedUnits(amount);
+
+  // Capped at the locked collateral
+  const { stable: collateral } = getCollateral(market, { type, strike, amount });
+  return { ...flows, stableToBuyer: payoff > collateral ? collateral : payoff };
+};
+
+/**
+ * What exercising at feed price `price` gains or loses the buyer, in the stablecoin's smallest unit: the cash
+ * payout for Options, the ETH received at `price` minus the stable paid (or the reverse for puts) for
+ * PhysicallySettledOptions, which settle without any price check and so lose money out of the money
+ */
+export const getExerciseValue = (market: OptionMarketName, terms: OptionTerms, price: bigint) => {
+  const flows = getExerciseFlows(market, terms, price);
+  const ethValue = (flows.ethToBuyer * price) / ONE - (flows.ethFromBuyer * price) / ONE;
+  return ethValue + flows.stableToBuyer - flows.stableFromBuyer;
+};
+
+/**
+ * What exercising at feed price `price` is worth to the buyer, floored at zero since a rational buyer only
+ * exercises when that is positive
+ */
+export const getIntrinsicValue = (market: OptionMarketName, terms: OptionTerms, price: bigint) => {
+  const value = getExerciseValue(market, terms, price);
+  return value > 0n ? value : 0n;
+};
+
+/**
+ * Premium and collateral of a `buyOption` call, with `freeLiquidity` the pool's unlocked stable and ETH:
+ * totalLiquidity - lockedCollateral for Options, totalStableCollateral - lockedStable and
+ * totalEthCollateral - lockedEth for PhysicallySettledOptions.
+ */
+export const quoteOption = (market: OptionMarketName, terms: OptionTerms, freeLiquidity?: Collateral): OptionQuote => {
+  const collateral = getCollateral(market, terms);
+  const chargedAmount = getOptionsChargedUnits(terms.amount) * ONE;
+
+  return {
+    premium: getPremium(market, terms.strike, terms.amount),
+    collateral,
+    truncatedAmount: market === "Options" && chargedAmount !== terms.amount ? chargedAmount : undefined,
+    hasLiquidity: freeLiquidity
+      ? freeLiquidity.stable >= collateral.stable && freeLiquidity.eth >= collateral.eth
+      : undefined,
+  };
+};
@@ -0,0 +1,90 @@
+import { Collateral, OptionMarketName, OptionQuote, OptionTerms, quoteOption } from "./quote";
+
+/**
+ * Multi-leg option strategies, bought leg by leg since the markets only sell single options
+ */
+
+export type StrategyLeg = OptionTerms;
+
+export type StrategyPresetName = "longStraddle" | "longStrangle" | "callLadder" | "putLadder";
+
+export type StrategyPreset = {
+  label: string;
+  description: string;
+  // `center` is the at-the-money strike, `width` the distance between strikes, both 1e18 scaled
+  build: (center: bigint, width: bigint, amount: bigint) => StrategyLeg[];
+};
+
+export const STRATEGY_PRESETS: Record<StrategyPresetName, StrategyPreset> = {
+  longStraddle: {
+    label: "Long straddle",
+    description: "Call and put at the same strike, profits from a large move either way",
+    build: (center, _width, amount) => [
+      { type: "call", strike: center, amount },
+      { type: "put", strike: center, amount },
+    ],
+  },
+  longStrangle: {
+    label: "Long strangle",
+    description: "Out of the money call and put, cheaper than a straddle but needs a larger move",
+    build: (center, width, amount) => [
+      { type: "call", strike: center + width, amount },
+      { type: "put", strike: center - width, amount },
+    ],
+  },
+  callLadder: {
+    label: "Call ladder",
+    description: "Calls at three rising strikes, exposure grows as the price climbs through them",
+    build: (center, width, amount) => [0n, 1n, 2n].map(i => ({ type: "call", strike: center + width * i, amount })),
+  },
+  putLadder: {
+    label: "Put ladder",
+    description: "Puts at three falling strikes, exposure grows as the price drops through them",
+    build: (center, width, amount) => [0n, 1n, 2n].map(i => ({ type: "put", strike: center - width * i, amount })),
+  },
+};
+
+/**
+ * `price` rounded to the nearest multiple of `step`, for at-the-money strikes
+ */
+export const roundToStrike = (price: bigint, step: bigint) => ((price + step / 2n) / step) * step;
+
+export type StrategyQuote = {
+  legs: OptionQuote[];
+  premium: bigint;
+  collateral: Collateral;
+  // Whether the pool can lock the collateral of every leg, undefined when no pool state was given
+  hasLiquidity?: boolean;
+  // Index of the first leg the pool can no longer collateralize once the legs before it are bought
+  firstUnfundedLeg?: number;
+};
+
+/**
+ * Combined premium and collateral of buying every leg in order from `market`
+ */
+export const quoteStrategy = (
+  market: OptionMarketName,
+  legs: StrategyLeg[],
+  freeLiquidity?: Collateral,
+): StrategyQuote => {
+  const quotes = legs.map(leg => quoteOption(market, leg));
+  const premium = quotes.reduce((total, quote) => total + quote.premium, 0n);
+  const collateral = { stable: 0n, eth: 0n };
+  let firstUnfundedLeg: number | undefined;
+
+  quotes.forEach((quote, i) => {
+    collateral.stable += quote.collateral.stable;
+    collateral.eth += quote.collateral.eth;
+    const isFunded =
+      !freeLiquidity || (freeLiquidity.stable >= collateral.stable && freeLiquidity.eth >= collateral.eth);
+    if (!isFunded && firstUnfundedLeg === undefined) firstUnfundedLeg = i;
+  });
+
+  return {
+    legs: quotes,
+    premium,
+    collateral,
+    hasLiquidity: freeLiquidity ? firstUnfundedLeg === undefined : undefined,
+    firstUnfundedLeg,
+  };
+};
@@ -0,0 +1,142 @@
+import { FuturesPosition, getClosePayout, getLiquidationPrice, isLiquidatable } from "../futures/position";
+import { OptionType, SECONDS_PER_YEAR, blackScholesPrice, fromWad } from "../options/blackScholes";
+import { OptionMarketName, getIntrinsicValue, getOptionsChargedUnits } from "../options/quote";
+
+/**
+ * Profit and loss of Options, PhysicallySettledOptions and Futures positions across underlying prices.
+ * Amounts are bigints in the contracts' 1e18 scaling, P&L is returned in USD.
+ */
+
+export type OptionPayoffPosition = {
+  kind: "option";
+  market: OptionMarketName;
+  type: OptionType;
+  strike: bigint;
+  amount: bigint;
+  expiry: bigint;
+  premium: bigint;
+  label?: string;
+};
+
+export type FuturesPayoffPosition = FuturesPosition & {
+  kind: "futures";
+  // What the trader transferred in, margin plus the trading fee (default: margin)
+  deposit?: bigint;
+  maintenanceMarginRatio: bigint;
+  label?: string;
+};
+
+export type PayoffPosition = OptionPayoffPosition | FuturesPayoffPosition;
+
+/**
+ * Units of the underlying the option pays out on, Options settles whole units only
+ */
+export const getOptionUnits = ({ market, amount }: OptionPayoffPosition) =>
+  market === "Options" ? Number(getOptionsChargedUnits(amount)) : fromWad(amount);
+
+const getOptionExpiryPnl = ({ market, type, strike, amount, premium }: OptionPayoffPosition, price: bigint) =>
+  fromWad(getIntrinsicValue(market, { type, strike, amount }, price) - premium);
+
+const getFuturesPnl = (position: FuturesPayoffPosition, price: bigint) => {
+  const deposit = position.deposit ?? position.margin;
+  // A liquidated trader gets nothing back
+  if (isLiquidatable(position, price, position.maintenanceMarginRatio)) return -fromWad(deposit);
+  return fromWad(getClosePayout(position, price) - deposit);
+};
+
+/**
+ * P&L if the underlying is at `price` when the option expires, or when the futures position is closed
+ */
+export const getExpiryPnl = (position: PayoffPosition, price: bigint) =>
+  position.kind === "option" ? getOptionExpiryPnl(position, price) : getFuturesPnl(position, price);
+
+/**
+ * P&L if the underlying moved to `price` right now: options at their Black-Scholes value with `volatility`
+ */
+export const getCurrentPnl = (position: PayoffPosition, price: bigint, now: bigint, volatility: number) => {
+  if (position.kind === "futures") return getFuturesPnl(position, price);
+
+  const { type, strike, expiry, premium } = position;
+  if (expiry <= now) return getOptionExpiryPnl(position, price);
+
+  const value = blackScholesPrice({
+    type,
+    spot: fromWad(price),
+    strike: fromWad(strike),
+    volatility,
+    rate: 0,
+    timeToExpiry: Number(expiry - now) / SECONDS_PER_YEAR,
+  });
+  return value * getOptionUnits(position) - fromWad(premium);
+};
+
+export type PayoffMarker = { price: number; label: string; kind: "strike" | "entry" | "liquidation" };
+
+/**
+ * Strikes, futures entry prices and liquidation prices of the positions, in USD
+ */
+export const getPayoffMarkers = (positions: PayoffPosition[]): PayoffMarker[] =>
+  positions.flatMap((position): PayoffMarker[] => {
+    if (position.kind === "option") {
+      return [{ price: fromWad(position.strike), label: `K ${fromWad(position.strike)}`, kind: "strike" }];
+    }
+    return [
+      { price: fromWad(position.entryPrice), label: "Entry", kind: "entry" },
+      {
+        price: fromWad(getLiquidationPrice(position, position.maintenanceMarginRatio)),
+        label: "Liq.",
+        kind: "liquidation",
+      },
+    ];
+  });
+
+export type PayoffPoint = { price: number; expiry: number; current: number };
+
+/**
+ * Total P&L of all positions at `samples` evenly spaced prices between `minPrice` and `maxPrice` (USD)
+ */
+export const getPayoffCurve = (
+  positions: PayoffPosition[],
+  minPrice: number,
+  maxPrice: number,
+  { samples = 200, now, volatility }: { samples?: number; now: bigint; volatility: number },
+): PayoffPoint[] =>
+  Array.from({ length: samples }, (_, i) => {
+    const price = minPrice + ((maxPrice - minPrice) * i) / (samples - 1);
+    // Whole cents keep the bigint conversion exact
+    const priceWad = BigInt(Math.round(price * 100)) * 10n ** 16n;
+    return {
+      price,
+      expiry: positions.reduce((total, position) => total + getExpiryPnl(position, priceWad), 0),
+      current: positions.reduce((total, position) => total + getCurrentPnl(position, priceWad, now, volatility), 0),
+    };
+  });
+
+/**
+ * Prices where the expiry P&L crosses zero, interpolated between samples
+ */
+export const getBreakevens = (curve: PayoffPoint[]) => {
+  const breakevens: number[] = [];
+  for (let i = 1; i < curve.length; i++) {
+    const previous = curve[i - 1];
+    const point = curve[i];
+    const crossesUp = previous.expiry < 0 && point.expiry >= 0;
+    const crossesDown = previous.expiry > 0 && point.expiry <= 0;
+    if (crossesUp || crossesDown) {
+      const ratio = previous.expiry / (previous.expiry - point.expiry);
+      breakevens.push(previous.price + (point.price - previous.price) * ratio);
+    }
+  }
+  return breakevens;
+};
+
+/**
+ * A price range around the spot that shows every marker, padded on both sides
+ */
+export const getDefaultPriceRange = (positions: PayoffPosition[], spot: number): [number, number] => {
+  const prices = [spot, ...getPayoffMarkers(positions).map(marker => marker.price)].filter(price => price > 0);
+  const low = Math.min(...prices);
+  const high = Math.max(...prices);
+  const padding = Math.max((high - low) * 0.25, spot * 0.25);
+  return [Math.max(low - padding, 0), high + padding];
+};
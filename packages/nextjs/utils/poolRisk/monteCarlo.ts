@@ -0,0 +1,169 @@
+import { SECONDS_PER_YEAR, fromWad, toWad } from "../options/blackScholes";
+import { OptionPayoffPosition, getExpiryPnl } from "../payoff/payoff";
+
+/**
+ * Monte Carlo model of what the Options pool stands to make or lose on the options it has sold.
+ * Price paths follow a geometric Brownian motion sampled at every expiry, so options sharing a path are
+ * settled against correlated prices. With no interest rate, exercising early is never better than waiting,
+ * so each option is settled at its expiry price.
+ */
+
+export type PoolRiskInputs = {
+  // Every active option sold by the pool
+  options: OptionPayoffPosition[];
+  // 1e18 scaled
+  spot: bigint;
+  now: bigint;
+  // Annualized, e.g. 0.8 for 80%
+  volatility: number;
+  // The pool's totalLiquidity, returns are measured against it
+  liquidity: bigint;
+  paths?: number;
+  // Annualized drift of the underlying (default: 0)
+  drift?: number;
+  // Same seed, same paths
+  seed?: number;
+};
+
+export type PoolRiskBucket = { from: number; to: number; probability: number };
+
+export type PoolRiskResult = {
+  paths: number;
+  // Seconds from now to the last expiry
+  horizon: number;
+  // All amounts in USD
+  premiums: number;
+  expectedPayout: number;
+  expectedPnl: number;
+  // expectedPnl over the pool's liquidity, undefined for an empty pool
+  expectedReturn?: number;
+  stdDev: number;
+  // Losses not exceeded with 95% and 99% confidence, 0 when the pool profits at that confidence
+  valueAtRisk95: number;
+  valueAtRisk99: number;
+  // Average loss in the worst 5% of paths
+  expectedShortfall95: number;
+  // Share of paths where payouts exceed the premiums collected
+  drawdownProbability: number;
+  histogram: PoolRiskBucket[];
+};
+
+export const DEFAULT_SIMULATION_PATHS = 5000;
+const HISTOGRAM_BUCKETS = 24;
+
+/**
+ * mulberry32, a small seedable PRNG
+ */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Standard normal draws by Box-Muller
+ */
+const createNormal = (random: () => number) => () => {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+/**
+ * Pool P&L from one option if the underlying is at `price` on its expiry: the premium minus the payout
+ */
+export const getPoolOptionPnl = (option: OptionPayoffPosition, price: bigint) => -getExpiryPnl(option, price);
+
+/**
+ * `sorted` ascending, linear interpolation between ranks
+ */
+const quantile = (sorted: number[], q: number) => {
+  const rank = (sorted.length - 1) * q;
+  const low = Math.floor(rank);
+  const high = Math.ceil(rank);
+  return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+};
+
+const getHistogram = (sorted: number[]): PoolRiskBucket[] => {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (max === min) return [{ from: min, to: max, probability: 1 }];
+
+  const width = (max - min) / HISTOGRAM_BUCKETS;
+  const counts = new Array<number>(HISTOGRAM_BUCKETS).fill(0);
+  for (const pnl of sorted) counts[Math.min(Math.floor((pnl - min) / width), HISTOGRAM_BUCKETS - 1)]++;
+  return counts.map((count, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    probability: count / sorted.length,
+  }));
+};
+
+/**
+ * Distribution of the pool's P&L, premiums collected minus payouts, once every option in `inputs` has expired
+ */
+export const simulatePoolRisk = ({
+  options,
+  spot,
+  now,
+  volatility,
+  liquidity,
+  paths = DEFAULT_SIMULATION_PATHS,
+  drift = 0,
+  seed = 1,
+}: PoolRiskInputs): PoolRiskResult => {
+  if (paths < 1) throw new Error("At least one path is needed");
+
+  // Options past their expiry can no longer be exercised, the pool keeps their premium
+  const live = options.filter(option => option.expiry > now);
+  const expired = options.filter(option => option.expiry <= now);
+  const expiredPnl = expired.reduce((total, option) => total + fromWad(option.premium), 0);
+
+  const expiries = [...new Set(live.map(option => option.expiry))].sort((a, b) => Number(a - b));
+  const steps = expiries.map((expiry, i) => {
+    const dt = Number(expiry - (i === 0 ? now : expiries[i - 1])) / SECONDS_PER_YEAR;
+    return { expiry, drift: (drift - (volatility * volatility) / 2) * dt, diffusion: volatility * Math.sqrt(dt) };
+  });
+
+  const normal = createNormal(createRandom(seed));
+  const spotUsd = fromWad(spot);
+  const premiums = options.reduce((total, option) => total + fromWad(option.premium), 0);
+  const results: number[] = new Array(paths);
+
+  for (let path = 0; path < paths; path++) {
+    let logPrice = Math.log(spotUsd);
+    const prices = new Map<bigint, bigint>();
+    for (const step of steps) {
+      logPrice += step.drift + step.diffusion * normal();
+      prices.set(step.expiry, spotUsd > 0 ? toWad(Math.exp(logPrice)) : 0n);
+    }
+
+    let pnl = expiredPnl;
+    for (const option of live) pnl += getPoolOptionPnl(option, prices.get(option.expiry) ?? spot);
+    results[path] = pnl;
+  }
+
+  const sorted = [...results].sort((a, b) => a - b);
+  const expectedPnl = sorted.reduce((total, pnl) => total + pnl, 0) / paths;
+  const variance = sorted.reduce((total, pnl) => total + (pnl - expectedPnl) ** 2, 0) / paths;
+  const tail = sorted.slice(0, Math.max(1, Math.floor(paths * 0.05)));
+
+  return {
+    paths,
+    horizon: expiries.length ? Number(expiries[expiries.length - 1] - now) : 0,
+    premiums,
+    expectedPayout: premiums - expectedPnl,
+    expectedPnl,
+    expectedReturn: liquidity > 0n ? expectedPnl / fromWad(liquidity) : undefined,
+    stdDev: Math.sqrt(variance),
+    valueAtRisk95: Math.max(0, -quantile(sorted, 0.05)),
+    valueAtRisk99: Math.max(0, -quantile(sorted, 0.01)),
+    expectedShortfall95: Math.max(0, -tail.reduce((total, pnl) => total + pnl, 0) / tail.length),
+    drawdownProbability: sorted.filter(pnl => pnl < 0).length / paths,
+    histogram: getHistogram(sorted),
+  };
+};
@@ -0,0 +1,19 @@
+import { PoolRiskInputs, PoolRiskResult, simulatePoolRisk } from "./monteCarlo";
+
+/**
+ * Runs the pool risk simulation off the main thread, see usePoolRisk
+ */
+
+export type PoolRiskRequest = { id: number; inputs: PoolRiskInputs };
+
+export type PoolRiskResponse = { id: number; result: PoolRiskResult } | { id: number; error: string };
+
+self.onmessage = ({ data: { id, inputs } }: MessageEvent<PoolRiskRequest>) => {
+  let response: PoolRiskResponse;
+  try {
+    response = { id, result: simulatePoolRisk(inputs) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,97 @@
+import { getPositionValue } from "../futures/position";
+import { SECONDS_PER_YEAR, blackScholes, fromWad } from "../options/blackScholes";
+import { PayoffPosition, getExpiryPnl, getOptionUnits } from "../payoff/payoff";
+
+/**
+ * Sensitivities of option and futures positions to the ETH price, volatility and time, summed per portfolio
+ */
+
+export type PositionGreeks = {
+  // Mark-to-model value in USD: Black-Scholes value for options, unrealized PnL for futures
+  value: number;
+  // ETH of exposure, the USD change per $1 move of ETH
+  delta: number;
+  // Change of delta per $1 move of ETH
+  gamma: number;
+  // USD per volatility point
+  vega: number;
+  // USD per day, negative when the position loses value over time
+  theta: number;
+};
+
+export const ZERO_GREEKS: PositionGreeks = { value: 0, delta: 0, gamma: 0, vega: 0, theta: 0 };
+
+/**
+ * Greeks of `position` at spot `spot` (1e18 scaled) and chain time `now`, options valued at `volatility`
+ */
+export const getPositionGreeks = (
+  position: PayoffPosition,
+  spot: bigint,
+  now: bigint,
+  volatility: number,
+): PositionGreeks => {
+  if (position.kind === "futures") {
+    const { margin, leverage, entryPrice, side } = position;
+    // getPositionValue is linear in the price, its slope is the exposure in ETH
+    const exposure = (fromWad(margin) * Number(leverage)) / fromWad(entryPrice);
+    return {
+      ...ZERO_GREEKS,
+      value: fromWad(getPositionValue(position, spot)),
+      delta: side === "long" ? exposure : -exposure,
+    };
+  }
+
+  const units = getOptionUnits(position);
+  if (position.expiry <= now) {
+    // Only the intrinsic value is left, the P&L plus the premium paid
+    return { ...ZERO_GREEKS, value: getExpiryPnl(position, spot) + fromWad(position.premium) };
+  }
+
+  const greeks = blackScholes({
+    type: position.type,
+    spot: fromWad(spot),
+    strike: fromWad(position.strike),
+    volatility,
+    rate: 0,
+    timeToExpiry: Number(position.expiry - now) / SECONDS_PER_YEAR,
+  });
+  return {
+    value: greeks.value * units,
+    delta: greeks.delta * units,
+    gamma: greeks.gamma * units,
+    vega: (greeks.vega * units) / 100,
+    theta: (greeks.theta * units) / 365,
+  };
+};
+
+export const sumGreeks = (greeks: PositionGreeks[]): PositionGreeks =>
+  greeks.reduce(
+    (total, item) => ({
+      value: total.value + item.value,
+      delta: total.delta + item.delta,
+      gamma: total.gamma + item.gamma,
+      vega: total.vega + item.vega,
+      theta: total.theta + item.theta,
+    }),
+    ZERO_GREEKS,
+  );
+
+/**
+ * The same Greeks in USD terms: delta as a dollar exposure and gamma as the change of that exposure for a 1%
+ * move. Value, vega and theta are already in USD.
+ */
+export const toUsdGreeks = (greeks: PositionGreeks, spot: number): PositionGreeks => ({
+  ...greeks,
+  delta: greeks.delta * spot,
+  gamma: (greeks.gamma * spot * spot) / 100,
+});
+
+/**
+ * The same Greeks in ETH terms: value, vega and theta converted at `spot`, delta and gamma already are in ETH.
+ */
+export const toEthGreeks = (greeks: PositionGreeks, spot: number): PositionGreeks => ({
+  ...greeks,
+  value: greeks.value / spot,
+  vega: greeks.vega / spot,
+  theta: greeks.theta / spot,
+});
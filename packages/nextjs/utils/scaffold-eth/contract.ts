@@ -61,11 +61,36 @@ const contractsData = deepMergeContracts(deployedContractsData, externalContract
 
 export type InheritedFunctions = { readonly [key: string]: string };
 
+// NatSpec from the solc output, methods are keyed by signature, e.g. "buyOption(uint8,uint256,uint256,uint256)"
+export type UserDoc = {
+  notice?: string;
+  methods: { readonly [signature: string]: { notice?: string } };
+};
+
+export type DevDoc = {
+  title?: string;
+  details?: string;
+  methods: {
+    readonly [signature: string]: {
+      details?: string;
+      params?: { readonly [param: string]: string };
+      returns?: { readonly [output: string]: string };
+    };
+  };
+};
+
 export type GenericContract = {
   address: Address;
   abi: Abi;
   inheritedFunctions?: InheritedFunctions;
   external?: true;
+  // Deployment details, only available for contracts deployed from packages/hardhat
+  deployedOnBlock?: number;
+  transactionHash?: string;
+  constructorArgs?: readonly unknown[];
+  deployer?: Address;
+  userdoc?: UserDoc;
+  devdoc?: DevDoc;
 };
 
 export type GenericContractsDeclaration = {
@@ -288,7 +313,7 @@ export type UseScaffoldEventHistoryConfig<
 > = {
   contractName: TContractName;
   eventName: IsContractDeclarationMissing<string, TEventName>;
-  fromBlock: bigint;
+  fromBlock?: bigint;
   chainId?: AllowedChainIds;
   filters?: EventFilters<TContractName, TEventName>;
   blockData?: TBlockData;
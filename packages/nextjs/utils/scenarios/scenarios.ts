@@ -0,0 +1,96 @@
+import { getPositionValue, isLiquidatable } from "../futures/position";
+import { fromWad } from "../options/blackScholes";
+import { OptionMarketName } from "../options/quote";
+import { FuturesPayoffPosition, OptionPayoffPosition, PayoffPosition, getCurrentPnl } from "../payoff/payoff";
+
+/**
+ * "What if ETH moves to X by date Y": every position repriced on a grid of price shocks and time offsets.
+ * Options are valued with Black-Scholes until their expiry and at their exercise value after it.
+ */
+
+// -50% to +50% in 10% steps
+export const DEFAULT_PRICE_SHOCKS = Array.from({ length: 11 }, (_, i) => (i - 5) / 10);
+
+// Now, a day, a week and 30 days ahead, in seconds
+export const DEFAULT_TIME_OFFSETS = [0, 1, 7, 30].map(days => days * 86400);
+
+export type ScenarioInputs = {
+  // The trader's own positions, options and at most one futures position
+  traderPositions: PayoffPosition[];
+  // Every active option each pool has sold, to all buyers
+  poolOptions: OptionPayoffPosition[];
+  // 1e18 scaled
+  spot: bigint;
+  now: bigint;
+  volatility: number;
+};
+
+export type ScenarioCell = {
+  shock: number;
+  // Seconds after `now`
+  offset: number;
+  // 1e18 scaled
+  price: bigint;
+  // Value of the trader's options, in USD
+  traderOptionsValue: number;
+  // P&L of all the trader's positions against what they paid, in USD
+  traderPnl: number;
+  // Unrealized PnL of the trader's futures position, undefined without one
+  futuresPnl?: number;
+  isLiquidated: boolean;
+  // What each pool owes its buyers minus the premiums it collected, positive when the pool is losing
+  poolNetLiability: Record<OptionMarketName, number>;
+};
+
+const getOptionValue = (option: OptionPayoffPosition, price: bigint, time: bigint, volatility: number) =>
+  getCurrentPnl(option, price, time, volatility) + fromWad(option.premium);
+
+/**
+ * `spot` moved by `shock` (e.g. -0.2 for -20%), with the shock rounded to a basis point
+ */
+export const getShockedPrice = (spot: bigint, shock: number) => (spot * BigInt(Math.round((1 + shock) * 1e4))) / 10000n;
+
+/**
+ * One cell of the grid: every position repriced at `spot * (1 + shock)`, `offset` seconds from now
+ */
+export const runScenario = (
+  { traderPositions, poolOptions, spot, now, volatility }: ScenarioInputs,
+  shock: number,
+  offset: number,
+): ScenarioCell => {
+  const price = getShockedPrice(spot, shock);
+  const time = now + BigInt(offset);
+
+  const traderOptions = traderPositions.filter(
+    (position): position is OptionPayoffPosition => position.kind === "option",
+  );
+  const futures = traderPositions.find((position): position is FuturesPayoffPosition => position.kind === "futures");
+
+  const poolNetLiability: Record<OptionMarketName, number> = { Options: 0, PhysicallySettledOptions: 0 };
+  for (const option of poolOptions) {
+    poolNetLiability[option.market] += getOptionValue(option, price, time, volatility) - fromWad(option.premium);
+  }
+
+  return {
+    shock,
+    offset,
+    price,
+    traderOptionsValue: traderOptions.reduce(
+      (total, option) => total + getOptionValue(option, price, time, volatility),
+      0,
+    ),
+    traderPnl: traderPositions.reduce((total, position) => total + getCurrentPnl(position, price, time, volatility), 0),
+    futuresPnl: futures ? fromWad(getPositionValue(futures, price)) : undefined,
+    isLiquidated: futures ? isLiquidatable(futures, price, futures.maintenanceMarginRatio) : false,
+    poolNetLiability,
+  };
+};
+
+/**
+ * The whole grid, one row per time offset and one column per price shock
+ */
+export const runScenarioGrid = (
+  inputs: ScenarioInputs,
+  shocks: number[] = DEFAULT_PRICE_SHOCKS,
+  offsets: number[] = DEFAULT_TIME_OFFSETS,
+): ScenarioCell[][] => offsets.map(offset => shocks.map(shock => runScenario(inputs, shock, offset)));
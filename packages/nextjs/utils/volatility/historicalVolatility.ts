@@ -0,0 +1,141 @@
+import { SECONDS_PER_YEAR } from "../options/blackScholes";
+
+/**
+ * Realized volatility of the underlying from the price feed's round history.
+ * Chainlink aggregators update on a price deviation or a heartbeat rather than on a fixed schedule,
+ * so variance is accumulated from the squared log returns between rounds and divided by the time elapsed.
+ */
+
+export const aggregatorV3Abi = [
+  {
+    inputs: [],
+    name: "latestRoundData",
+    outputs: [
+      { name: "roundId", type: "uint80" },
+      { name: "answer", type: "int256" },
+      { name: "startedAt", type: "uint256" },
+      { name: "updatedAt", type: "uint256" },
+      { name: "answeredInRound", type: "uint80" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "_roundId", type: "uint80" }],
+    name: "getRoundData",
+    outputs: [
+      { name: "roundId", type: "uint80" },
+      { name: "answer", type: "int256" },
+      { name: "startedAt", type: "uint256" },
+      { name: "updatedAt", type: "uint256" },
+      { name: "answeredInRound", type: "uint80" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+// Fallback when the feed doesn't have enough history
+export const DEFAULT_VOLATILITY_PERCENT = 80;
+
+export type PriceRound = {
+  roundId: bigint;
+  // In the feed's decimals, only ratios of answers are used
+  answer: bigint;
+  updatedAt: bigint;
+};
+
+export type VolatilityWindow = { label: string; seconds: number };
+
+export type VolatilityEstimate = VolatilityWindow & {
+  // Annualized, e.g. 0.8 for 80%, undefined with fewer than MIN_VOLATILITY_RETURNS returns in the window
+  volatility?: number;
+  returns: number;
+};
+
+export const VOLATILITY_WINDOWS: VolatilityWindow[] = [
+  { label: "24h", seconds: 86400 },
+  { label: "7d", seconds: 7 * 86400 },
+  { label: "30d", seconds: 30 * 86400 },
+];
+
+export const MIN_VOLATILITY_RETURNS = 3;
+
+// Round ids are (phaseId << 64) | aggregatorRoundId, the walk stays within the current phase
+const AGGREGATOR_ROUND_MASK = (1n << 64n) - 1n;
+
+/**
+ * Rounds from `latest` back to the last one updated at or before `since`, oldest first.
+ * Rounds never change once written, so every round read is kept in `cache` and only new ones are fetched.
+ * @param readRound - getRoundData for a round id, rejecting when the round doesn't exist
+ * @param latest - the feed's latest round
+ * @param since - unix timestamp the history should reach back to
+ * @param config.cache - rounds already read from this feed
+ * @param config.maxRounds - stop walking after this many rounds (default: 500)
+ */
+export const fetchRoundHistory = async (
+  readRound: (roundId: bigint) => Promise<PriceRound>,
+  latest: PriceRound,
+  since: bigint,
+  {
+    cache = new Map<bigint, PriceRound>(),
+    maxRounds = 500,
+  }: { cache?: Map<bigint, PriceRound>; maxRounds?: number } = {},
+) => {
+  const rounds: PriceRound[] = [latest];
+  cache.set(latest.roundId, latest);
+
+  let round = latest;
+  while (round.updatedAt > since && rounds.length < maxRounds && (round.roundId & AGGREGATOR_ROUND_MASK) > 1n) {
+    const roundId = round.roundId - 1n;
+    let previous = cache.get(roundId);
+    if (!previous) {
+      try {
+        previous = await readRound(roundId);
+      } catch {
+        // Past the first round the feed has data for
+        break;
+      }
+      cache.set(roundId, previous);
+    }
+    rounds.push(previous);
+    round = previous;
+  }
+
+  return rounds.reverse();
+};
+
+/**
+ * Annualized realized volatility over the `window` seconds up to `now`
+ * @param rounds - price rounds, oldest first
+ */
+export const getRealizedVolatility = (
+  rounds: PriceRound[],
+  now: bigint,
+  window: VolatilityWindow,
+): VolatilityEstimate => {
+  const windowStart = now - BigInt(window.seconds);
+  // The last round before the window holds the price the window starts at
+  const firstIndex = rounds.findIndex(round => round.updatedAt > windowStart);
+  const points = (firstIndex === -1 ? [] : rounds.slice(Math.max(firstIndex - 1, 0))).filter(
+    round => round.answer > 0n,
+  );
+
+  let sumOfSquares = 0;
+  for (let i = 1; i < points.length; i++) {
+    sumOfSquares += Math.log(Number(points[i].answer) / Number(points[i - 1].answer)) ** 2;
+  }
+  const returns = Math.max(points.length - 1, 0);
+
+  const start = points.length ? (points[0].updatedAt > windowStart ? points[0].updatedAt : windowStart) : now;
+  const elapsed = Number(now - start) / SECONDS_PER_YEAR;
+  if (returns < MIN_VOLATILITY_RETURNS || elapsed <= 0) return { ...window, returns };
+
+  return { ...window, volatility: Math.sqrt(sumOfSquares / elapsed), returns };
+};
+
+/**
+ * The estimate to price with: the longest window with enough returns, longer windows being less noisy
+ */
+export const pickVolatility = (estimates: VolatilityEstimate[]) =>
+  [...estimates].sort((a, b) => b.seconds - a.seconds).find(estimate => estimate.volatility !== undefined)?.volatility;